@@ -0,0 +1,37 @@
+"use client"
+
+import Link from "next/link"
+import { signOut, useSession } from "next-auth/react"
+import { ShieldAlert } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { homeRoute } from "@/lib/permissions"
+
+export default function ForbiddenPage() {
+  const { data: session } = useSession()
+  const home = homeRoute(session?.user?.role)
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#FFF1DB] py-12 px-4">
+      <div className="w-full max-w-md p-8 text-center">
+        <ShieldAlert className="mx-auto mb-4 h-12 w-12 text-[#7B3F00]" />
+        <p className="text-sm font-semibold text-gray-500">403</p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">You don&apos;t have access to this page</h1>
+        <p className="text-gray-500 mb-6 text-sm">
+          Your role doesn&apos;t include this part of the dashboard. Ask the store owner if you need it.
+        </p>
+
+        <div className="flex justify-center gap-3">
+          {home !== "/403" && (
+            <Button asChild className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white">
+              <Link href={home}>Back to dashboard</Link>
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => signOut({ callbackUrl: "/auth/login" })}>
+            Sign in as someone else
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
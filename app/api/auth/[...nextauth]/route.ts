@@ -1,68 +1,5 @@
-import NextAuth, { type NextAuthOptions } from "next-auth"
-import CredentialsProvider from "next-auth/providers/credentials"
-import { authAPI } from "@/lib/auth-api"
-
-export const authOptions: NextAuthOptions = {
-  providers: [
-    CredentialsProvider({
-      name: "Credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" },
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          throw new Error("Invalid credentials")
-        }
-
-        try {
-          const response = await authAPI.login(credentials.email, credentials.password)
-
-          if (response.success && response.data.user) {
-            return {
-              id: response.data.user.id,
-              email: response.data.user.email,
-              name: response.data.user.name,
-              role: response.data.user.role,
-              accessToken: response.data.accessToken,
-            }
-          }
-
-          throw new Error("Login failed")
-        } catch (error) {
-          throw new Error("Invalid email or password")
-        }
-      },
-    }),
-  ],
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
-        token.accessToken = (user as any).accessToken
-        token.role = (user as any).role
-        token.id = user.id
-      }
-      return token
-    },
-    async session({ session, token }) {
-      if (session.user) {
-        ;(session.user as any).accessToken = token.accessToken
-        ;(session.user as any).role = token.role
-        ;(session.user as any).id = token.id
-      }
-      return session
-    },
-  },
-  pages: {
-    signIn: "/auth/login",
-    error: "/auth/login",
-  },
-  session: {
-    strategy: "jwt",
-    maxAge: 30 * 24 * 60 * 60, // 30 days
-  },
-  secret: process.env.NEXTAUTH_SECRET,
-}
+import NextAuth from "next-auth"
+import { authOptions } from "@/lib/auth-options"
 
 const handler = NextAuth(authOptions)
 export { handler as GET, handler as POST }
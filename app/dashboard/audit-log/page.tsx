@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { Search } from "lucide-react"
+
+import { auditAPI, type AuditQueryParams } from "@/lib/audit-api"
+import { AUDIT_ENTITY_LABELS, AUDIT_ENTITY_TYPES, type AuditEntry } from "@/lib/audit"
+import { resolveDateRange } from "@/lib/date-range"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useDateRange } from "@/hooks/use-date-range"
+import { enumParam, pageParam, pageSizeParam, sortParam, textParam, useQueryState } from "@/hooks/use-query-state"
+
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
+import { DateRangePicker } from "@/components/dashboard/date-range-picker"
+import { AuditChanges, auditActionLabel } from "@/components/audit/audit-changes"
+
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(20),
+  sort: sortParam(["createdAt"], "-createdAt"),
+  entityType: enumParam(AUDIT_ENTITY_TYPES),
+  actor: textParam,
+}
+
+function entityHref(entry: AuditEntry) {
+  if (entry.action === "delete") return null
+  if (entry.entityType === "order") return `/dashboard/orders/${entry.entityId}`
+  if (entry.entityType === "product") return `/dashboard/products?product=${entry.entityId}`
+  return null
+}
+
+const actionTone: Record<AuditEntry["action"], string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-[#DCEBFB] text-[#2D6CB8]",
+  delete: "bg-red-100 text-red-700",
+  refund: "bg-orange-100 text-orange-700",
+}
+
+export default function AuditLogPage() {
+  const [query, setQuery] = useQueryState(querySchema)
+  const { page, limit, sort, entityType } = query
+  const setPage = (next: number) => setQuery({ page: next })
+  const [dateRange, setDateRange] = useDateRange({ preset: "last30" })
+
+  const [actorSearch, setActorSearch] = useState(query.actor ?? "")
+  const debouncedActor = useDebouncedValue(actorSearch, 400)
+
+  useEffect(() => {
+    const actor = debouncedActor.trim() || undefined
+    if (actor !== query.actor) setQuery({ actor, page: 1 }, { replace: true })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedActor])
+
+  useEffect(() => {
+    setActorSearch((current) => (current.trim() === (query.actor ?? "") ? current : query.actor ?? ""))
+  }, [query.actor])
+
+  const params: AuditQueryParams = useMemo(() => {
+    const p: AuditQueryParams = { page, limit, sort }
+    if (entityType) p.entityType = entityType
+    if (query.actor) p.actor = query.actor
+    const range = resolveDateRange(dateRange)
+    if (range) {
+      p.from = range.from.toISOString()
+      p.to = range.to.toISOString()
+    }
+    return p
+  }, [page, limit, sort, entityType, query.actor, dateRange])
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: ["audit", "list", params],
+    queryFn: () => auditAPI.getAuditLogs(params),
+    placeholderData: keepPreviousData,
+  })
+
+  const entries = data?.data.items ?? []
+  const total = data?.data.total ?? 0
+  const pages = data?.data.pages ?? 1
+
+  const columns: DataTableColumn<AuditEntry>[] = [
+    {
+      id: "time",
+      header: "When",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      className: "whitespace-nowrap",
+      cell: (entry) => format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm"),
+    },
+    {
+      id: "actor",
+      header: "User",
+      cell: (entry) => (
+        <div>
+          <p className="font-medium">{entry.actor?.name ?? "Unknown"}</p>
+          <p className="text-xs text-gray-500">{entry.actor?.email}</p>
+        </div>
+      ),
+    },
+    {
+      id: "action",
+      header: "Action",
+      cell: (entry) => (
+        <Badge variant="secondary" className={actionTone[entry.action]}>
+          {auditActionLabel(entry.action)}
+        </Badge>
+      ),
+    },
+    {
+      id: "entity",
+      header: "Entity",
+      cell: (entry) => {
+        const href = entityHref(entry)
+        const label = entry.entityLabel || `#${entry.entityId.slice(-6)}`
+        return (
+          <div>
+            <p className="text-xs text-gray-500">{AUDIT_ENTITY_LABELS[entry.entityType]}</p>
+            {href ? (
+              <Link href={href} className="font-medium text-[#2D6CB8] hover:underline">
+                {label}
+              </Link>
+            ) : (
+              <p className="font-medium">{label}</p>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      id: "changes",
+      header: "Changes",
+      className: "whitespace-normal max-w-md",
+      cell: (entry) => <AuditChanges entry={entry} limit={4} />,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-sm text-gray-600">Every change made to orders, products, categories and customers.</p>
+      </div>
+
+      <Card className="p-6">
+        <DataTable
+          columns={columns}
+          data={entries}
+          getRowId={(entry) => entry._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No changes recorded for these filters"
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="audit.hiddenColumns"
+          toolbar={
+            <>
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <Input
+                  placeholder="Filter by user name or email..."
+                  value={actorSearch}
+                  onChange={(e) => setActorSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+
+              <Select
+                value={entityType ?? "all"}
+                onValueChange={(value) =>
+                  setQuery({ entityType: value === "all" ? undefined : (value as typeof entityType), page: 1 })
+                }
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {AUDIT_ENTITY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+            </>
+          }
+        />
+      </Card>
+    </div>
+  )
+}
@@ -1,21 +1,38 @@
 "use client"
 
-import { useState } from "react"
-import { useQuery } from "@tanstack/react-query"
-import { Plus, Search, Filter, Edit2, Trash2 } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { Plus, Search, Edit2, Trash2 } from "lucide-react"
 
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
 
-import { categoriesAPI } from "@/lib/categories-api"
+import { categoriesAPI, type CategoryQueryParams } from "@/lib/categories-api"
 import { CategoryDialog } from "@/components/categories/category-dialog"
 import { DeleteCategoryDialog } from "@/components/categories/delete-category-dialog"
 import type { Category } from "@/lib/types"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { usePermissions } from "@/hooks/use-permissions"
+import { pageParam, pageSizeParam, sortParam, textParam, useQueryState } from "@/hooks/use-query-state"
+
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(),
+  sort: sortParam(["order", "name", "createdAt"], "order"),
+  q: textParam,
+}
 
 export default function CategoriesPage() {
-  const [searchQuery, setSearchQuery] = useState("")
+  const [query, setQuery] = useQueryState(querySchema)
+  const { can } = usePermissions()
+  const { page, limit, sort } = query
+  const setPage = (next: number) => setQuery({ page: next })
+
+  const [searchQuery, setSearchQuery] = useState(query.q ?? "")
+  const debouncedSearch = useDebouncedValue(searchQuery, 400)
   const [categoryDialog, setCategoryDialog] = useState<{
     open: boolean
     mode: "add" | "edit"
@@ -33,13 +50,31 @@ export default function CategoriesPage() {
     category: null,
   })
 
+  const params: CategoryQueryParams = useMemo(() => {
+    const p: CategoryQueryParams = { page, limit, sort }
+    if (query.q) p.name = query.q
+    return p
+  }, [page, limit, sort, query.q])
+
+  useEffect(() => {
+    const q = debouncedSearch.trim() || undefined
+    if (q !== query.q) setQuery({ q, page: 1 }, { replace: true })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
+
+  useEffect(() => {
+    setSearchQuery((current) => (current.trim() === (query.q ?? "") ? current : query.q ?? ""))
+  }, [query.q])
+
   const {
     data: categoriesData,
     isLoading,
+    isFetching,
     refetch,
   } = useQuery({
-    queryKey: ["categories"],
-    queryFn: () => categoriesAPI.getCategories({ limit: 1000 }),
+    queryKey: ["categories", params],
+    queryFn: () => categoriesAPI.getCategories(params),
+    placeholderData: keepPreviousData,
   })
 
   // 🔧 Normalize API response into a plain Category[]
@@ -52,6 +87,8 @@ export default function CategoriesPage() {
     : Array.isArray((categoriesData as any)?.items)
     ? (categoriesData as any).items
     : []
+  const total = categoriesData?.total ?? categories.length
+  const pages = categoriesData?.pages ?? 1
 
   const handleAddCategory = () => {
     setCategoryDialog({ open: true, mode: "add", category: null })
@@ -65,10 +102,84 @@ export default function CategoriesPage() {
     setDeleteDialog({ open: true, category })
   }
 
-  // apply search
-  const filteredCategories = categories.filter((category) =>
-    searchQuery ? category.name.toLowerCase().includes(searchQuery.toLowerCase()) : true,
-  )
+  const columns: DataTableColumn<Category>[] = [
+    {
+      id: "order",
+      header: "Order",
+      sortKey: "order",
+      className: "font-medium",
+      cell: (category, index) => category.order ?? (page - 1) * limit + index + 1,
+      skeleton: <Skeleton className="h-4 w-10" />,
+    },
+    {
+      id: "photo",
+      header: "Photo",
+      cell: (category) =>
+        category.image ? (
+          <img
+            src={category.image || "/placeholder.svg"}
+            alt={category.name}
+            className="w-12 h-12 rounded object-cover"
+          />
+        ) : (
+          <div className="w-12 h-12 rounded bg-gray-200 flex items-center justify-center text-2xl">
+            📁
+          </div>
+        ),
+      skeleton: <Skeleton className="w-12 h-12 rounded" />,
+    },
+    {
+      id: "name",
+      header: "Category",
+      sortKey: "name",
+      hideable: false,
+      className: "font-medium",
+      cell: (category) => category.name,
+      skeleton: <Skeleton className="h-4 w-32" />,
+    },
+    {
+      id: "added",
+      header: "Added",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      cell: (category) =>
+        category.createdAt ? new Date(category.createdAt).toLocaleDateString() : "--",
+    },
+    {
+      id: "actions",
+      header: "Action",
+      hideable: false,
+      cell: (category) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 bg-transparent"
+            disabled={!can("catalog:edit")}
+            onClick={() => handleEditCategory(category)}
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 text-red-600 hover:text-red-700 bg-transparent"
+            disabled={!can("catalog:delete")}
+            title={can("catalog:delete") ? undefined : "Your role can't do this"}
+            onClick={() => handleDeleteCategory(category)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+      skeleton: (
+        <div className="flex gap-2">
+          <Skeleton className="h-8 w-8 rounded" />
+          <Skeleton className="h-8 w-8 rounded" />
+        </div>
+      ),
+    },
+  ]
 
   return (
     <div className="space-y-6">
@@ -76,6 +187,7 @@ export default function CategoriesPage() {
         <h1 className="text-3xl font-bold text-gray-900">Category Lists</h1>
         <Button
           onClick={handleAddCategory}
+          disabled={!can("catalog:edit")}
           className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
         >
           <Plus className="w-4 h-4" />
@@ -84,113 +196,36 @@ export default function CategoriesPage() {
       </div>
 
       <Card className="p-6">
-        <div className="flex gap-4 mb-6">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-            <Input
-              placeholder="Search category..."
-              className="pl-10"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-          </div>
-        </div>
-
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead className="bg-[#7B3F00] text-white">
-              <tr>
-                <th className="px-4 py-3 text-left font-bold">Order</th>
-                <th className="px-4 py-3 text-left font-bold">Photo</th>
-                <th className="px-4 py-3 text-left font-bold">Category</th>
-                <th className="px-4 py-3 text-left font-bold">Added</th>
-                <th className="px-4 py-3 text-left font-bold">Action</th>
-              </tr>
-            </thead>
-            <tbody>
-              {isLoading ? (
-                Array.from({ length: 5 }).map((_, i) => (
-                  <tr key={i} className="border-b border-gray-200">
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-10" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="w-12 h-12 rounded" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-32" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-24" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        <Skeleton className="h-8 w-8 rounded" />
-                        <Skeleton className="h-8 w-8 rounded" />
-                      </div>
-                    </td>
-                  </tr>
-                ))
-              ) : filteredCategories.length === 0 ? (
-                <tr>
-                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
-                    No categories found
-                  </td>
-                </tr>
-              ) : (
-                filteredCategories.map((category, index) => (
-                  <tr
-                    key={category._id}
-                    className="border-b border-gray-200 hover:bg-gray-50"
-                  >
-                    <td className="px-4 py-3 font-medium">
-                      {category.order ?? index + 1}
-                    </td>
-                    <td className="px-4 py-3">
-                      {category.image ? (
-                        <img
-                          src={category.image || "/placeholder.svg"}
-                          alt={category.name}
-                          className="w-12 h-12 rounded object-cover"
-                        />
-                      ) : (
-                        <div className="w-12 h-12 rounded bg-gray-200 flex items-center justify-center text-2xl">
-                          📁
-                        </div>
-                      )}
-                    </td>
-                    <td className="px-4 py-3 font-medium">{category.name}</td>
-                    <td className="px-4 py-3">
-                      {category.createdAt
-                        ? new Date(category.createdAt).toLocaleDateString()
-                        : "--"}
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="gap-1 bg-transparent"
-                          onClick={() => handleEditCategory(category)}
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="gap-1 text-red-600 hover:text-red-700 bg-transparent"
-                          onClick={() => handleDeleteCategory(category)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
+        <DataTable
+          columns={columns}
+          data={categories}
+          getRowId={(category) => category._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No categories found"
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="categories.hiddenColumns"
+          toolbar={
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <Input
+                placeholder="Search category..."
+                className="pl-10"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+          }
+        />
       </Card>
 
       <CategoryDialog
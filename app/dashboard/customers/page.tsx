@@ -7,11 +7,18 @@ import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import Image from "next/image"
-import { useSession } from "next-auth/react"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { pageParam, pageSizeParam, sortParam, textParam, useQueryState } from "@/hooks/use-query-state"
+import { ExportMenu } from "@/components/dashboard/export-menu"
+import { exportCustomers, type ExportFormat } from "@/lib/export"
+import { EntityHistory } from "@/components/audit/entity-history"
 
 import {
   Search,
@@ -19,35 +26,40 @@ import {
   Eye,
   Trash2,
   ChevronLeft,
-  ChevronRight,
   ChevronDown,
 } from "lucide-react"
 
 type AnyUser = any
 
-function useDebouncedValue<T>(value: T, delay = 400) {
-  const [debounced, setDebounced] = useState(value)
-  useEffect(() => {
-    const t = setTimeout(() => setDebounced(value), delay)
-    return () => clearTimeout(t)
-  }, [value, delay])
-  return debounced
+const SORT_OPTIONS = [
+  { label: "Newest", value: "-createdAt" },
+  { label: "Oldest", value: "createdAt" },
+  { label: "Name: A → Z", value: "name" },
+  { label: "Name: Z → A", value: "-name" },
+] as const
+
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(),
+  sort: sortParam(["createdAt", "name"], "-createdAt"), // backend supports sort
+  q: textParam,
 }
 
 export default function CustomersPage() {
-  const limit = 10
-  const { data: session, status: sessionStatus } = useSession()
-  const accessToken = (session?.user as any)?.accessToken as string | undefined
+  const { can } = usePermissions()
+  const { formatMoney, currency, locale } = useCurrency()
 
-  const [page, setPage] = useState(1)
+  // ✅ page, sort and search are kept in the URL
+  const [query, setQuery] = useQueryState(querySchema)
+  const { page, limit, sort } = query
+  const setPage = (next: number) => setQuery({ page: next })
 
   // ✅ search (backend)
-  const [searchQuery, setSearchQuery] = useState("")
+  const [searchQuery, setSearchQuery] = useState(query.q ?? "")
   const debouncedSearch = useDebouncedValue(searchQuery, 400)
 
   // ✅ filters dropdown (same UX as ProductsPage)
   const [filtersOpen, setFiltersOpen] = useState(false)
-  const [sort, setSort] = useState<string>("-createdAt") // backend supports sort
 
   // dialogs
   const [selectedCustomer, setSelectedCustomer] = useState<AnyUser | null>(null)
@@ -58,7 +70,7 @@ export default function CustomersPage() {
   // ✅ backend params
   const params: UsersQueryParams = useMemo(() => {
     const p: UsersQueryParams = { page, limit, sort }
-    const s = debouncedSearch.trim()
+    const s = query.q
     if (s) {
       // backend supports name/email query params
       // we'll apply same string to both for simple "search"
@@ -66,22 +78,27 @@ export default function CustomersPage() {
       p.email = s
     }
     return p
-  }, [page, limit, sort, debouncedSearch])
+  }, [page, limit, sort, query.q])
+
+  // ✅ typing replaces the history entry; the page resets with it
+  useEffect(() => {
+    const q = debouncedSearch.trim() || undefined
+    if (q !== query.q) setQuery({ q, page: 1 }, { replace: true })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
 
-  // ✅ reset page on filter/search change
   useEffect(() => {
-    setPage(1)
-  }, [debouncedSearch, sort])
+    setSearchQuery((current) => (current.trim() === (query.q ?? "") ? current : query.q ?? ""))
+  }, [query.q])
 
   const { data, isLoading, isFetching } = useQuery({
-    queryKey: ["users", params, accessToken],
-    queryFn: () => usersAPI.getUsers(params, limit, accessToken),
-    enabled: sessionStatus !== "loading" && Boolean(accessToken),
+    queryKey: ["users", params],
+    queryFn: () => usersAPI.getUsers(params, limit),
     placeholderData: (prev) => prev, // ✅ v5 keep previous
   })
 
   const deleteUserMutation = useMutation({
-    mutationFn: (id: string) => usersAPI.deleteUser(id, accessToken),
+    mutationFn: (id: string) => usersAPI.deleteUser(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["users"] })
       toast.success("User deleted successfully")
@@ -100,15 +117,92 @@ export default function CustomersPage() {
   const getTotalSpent = (user: AnyUser) =>
     (user?.orders || []).reduce((sum: number, o: any) => sum + (Number(o?.totalAmount) || 0), 0)
 
-  const activeFiltersCount = (debouncedSearch.trim() ? 1 : 0) + (sort !== "-createdAt" ? 1 : 0)
+  const activeFiltersCount = (query.q ? 1 : 0) + (sort !== "-createdAt" ? 1 : 0)
+
+  const handleExport = async (fileFormat: ExportFormat) => {
+    const count = await exportCustomers(params, fileFormat, { currency, locale })
+    toast.success(`Exported ${count} customers`)
+  }
 
   const clearFilters = () => {
     setSearchQuery("")
-    setSort("-createdAt")
+    setQuery({ q: undefined, sort: "-createdAt", page: 1 })
     setFiltersOpen(false)
-    setPage(1)
   }
 
+  const columns: DataTableColumn<AnyUser>[] = [
+    {
+      id: "name",
+      header: "Customer Name",
+      sortKey: "name",
+      hideable: false,
+      cell: (user) => (
+        <div className="flex items-center gap-3">
+          <div className="relative w-8 h-8 rounded-full overflow-hidden bg-blue-100 flex items-center justify-center text-blue-600 font-semibold shrink-0">
+            {user?.avatar ? (
+              <Image src={user.avatar} alt={user?.name ?? "User"} fill className="object-cover" />
+            ) : (
+              (user?.name?.charAt(0)?.toUpperCase() ?? "U")
+            )}
+          </div>
+
+          <div>
+            <p className="font-medium">{user?.name ?? "Unknown"}</p>
+            <p className="text-xs text-gray-500">{user?.email ?? "—"}</p>
+          </div>
+        </div>
+      ),
+      skeleton: <Skeleton className="h-8 w-40" />,
+    },
+    {
+      id: "phone",
+      header: "Phone",
+      cell: (user) => user?.phone || "N/A",
+    },
+    {
+      id: "orders",
+      header: "Total Order",
+      cell: (user) => `${user?.orders?.length ?? 0} times`,
+    },
+    {
+      id: "spent",
+      header: "Order Amount",
+      className: "font-semibold",
+      cell: (user) => formatMoney(getTotalSpent(user)),
+    },
+    {
+      id: "joined",
+      header: "Joined",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      cell: (user) => (user?.createdAt ? format(new Date(user.createdAt), "MMM dd, yyyy") : "—"),
+    },
+    {
+      id: "actions",
+      header: "Action",
+      hideable: false,
+      cell: (user) => (
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="ghost" onClick={() => setSelectedCustomer(user)}>
+            <Eye className="w-4 h-4 text-gray-500" />
+          </Button>
+
+          <Button
+            size="icon"
+            variant="ghost"
+            className="hover:bg-red-50"
+            disabled={!can("customers:delete")}
+            title={can("customers:delete") ? "Delete customer" : "Your role can't do this"}
+            onClick={() => setUserToDelete(user)}
+          >
+            <Trash2 className="w-4 h-4 text-red-600" />
+          </Button>
+        </div>
+      ),
+      skeleton: <Skeleton className="h-8 w-16" />,
+    },
+  ]
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -117,211 +211,98 @@ export default function CustomersPage() {
 
       <Card className="p-6">
         {/* Search + Filters (ProductsPage style) */}
-        <div className="flex gap-4 mb-6">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-            <Input
-              placeholder="Search customers (name/email)..."
-              className="pl-10"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-          </div>
-
-          <div className="relative">
-            <Button
-              type="button"
-              onClick={() => setFiltersOpen((v) => !v)}
-              className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
-            >
-              <Filter className="w-4 h-4" />
-              Filters
-              <ChevronDown className="w-4 h-4" />
-              {activeFiltersCount > 0 && (
-                <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
-                  {activeFiltersCount}
-                </span>
-              )}
-            </Button>
-
-            {filtersOpen && (
-              <div className="absolute right-0 mt-2 w-96 rounded-xl border border-gray-200 bg-white shadow-lg p-4 z-50">
-                <div className="flex items-center justify-between mb-3">
-                  <p className="font-semibold text-gray-900">Filters</p>
-                  <Button variant="ghost" size="sm" onClick={() => setFiltersOpen(false)}>
-                    Close
-                  </Button>
-                </div>
-
-                {/* Sort */}
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-900 mb-2">Sort</p>
-                  <div className="space-y-2">
-                    {[
-                      { label: "Newest", value: "-createdAt" },
-                      { label: "Oldest", value: "createdAt" },
-                      { label: "Name: A → Z", value: "name" },
-                      { label: "Name: Z → A", value: "-name" },
-                    ].map((opt) => (
-                      <label key={opt.value} className="flex items-center gap-2 text-sm text-gray-700">
-                        <input
-                          type="radio"
-                          name="sort"
-                          checked={sort === opt.value}
-                          onChange={() => setSort(opt.value)}
-                        />
-                        {opt.label}
-                      </label>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={clearFilters}>
-                    Clear
-                  </Button>
-                  <Button
-                    className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-                    onClick={() => setFiltersOpen(false)}
-                  >
-                    Apply
-                  </Button>
-                </div>
+        <DataTable
+          columns={columns}
+          data={users}
+          getRowId={(user) => user._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No customers found"
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="customers.hiddenColumns"
+          toolbar={
+            <>
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <Input
+                  placeholder="Search customers (name/email)..."
+                  className="pl-10"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
               </div>
-            )}
-          </div>
-        </div>
-
-        {/* Table */}
-        {isLoading ? (
-          <div className="space-y-2">
-            {[...Array(5)].map((_, i) => (
-              <Skeleton key={i} className="h-16" />
-            ))}
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead className="bg-[#7B3F00] text-white">
-                <tr>
-                  <th className="px-4 py-3 text-left font-bold">Customer Name</th>
-                  <th className="px-4 py-3 text-left font-bold">Phone</th>
-                  <th className="px-4 py-3 text-left font-bold">Total Order</th>
-                  <th className="px-4 py-3 text-left font-bold">Order Amount</th>
-                  <th className="px-4 py-3 text-left font-bold">Joined</th>
-                  <th className="px-4 py-3 text-left font-bold">Action</th>
-                </tr>
-              </thead>
-
-              <tbody>
-                {users.map((user: AnyUser) => (
-                  <tr key={user._id} className="border-b border-gray-200 hover:bg-gray-50">
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-3">
-                        <input type="checkbox" className="rounded border-gray-300" />
-
-                        <div className="relative w-8 h-8 rounded-full overflow-hidden bg-blue-100 flex items-center justify-center text-blue-600 font-semibold shrink-0">
-                          {user?.avatar ? (
-                            <Image src={user.avatar} alt={user?.name ?? "User"} fill className="object-cover" />
-                          ) : (
-                            (user?.name?.charAt(0)?.toUpperCase() ?? "U")
-                          )}
-                        </div>
-
-                        <div>
-                          <p className="font-medium">{user?.name ?? "Unknown"}</p>
-                          <p className="text-xs text-gray-500">{user?.email ?? "—"}</p>
-                        </div>
-                      </div>
-                    </td>
-
-                    <td className="px-4 py-3">{user?.phone || "N/A"}</td>
-
-                    <td className="px-4 py-3">{(user?.orders?.length ?? 0)} times</td>
-
-                    <td className="px-4 py-3 font-semibold">${getTotalSpent(user).toFixed(2)}</td>
 
-                    <td className="px-4 py-3">
-                      {user?.createdAt ? format(new Date(user.createdAt), "MMM dd, yyyy") : "—"}
-                    </td>
-
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-2">
-                        <Button size="icon" variant="ghost" onClick={() => setSelectedCustomer(user)}>
-                          <Eye className="w-4 h-4 text-gray-500" />
-                        </Button>
-
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="hover:bg-red-50"
-                          onClick={() => setUserToDelete(user)}
-                        >
-                          <Trash2 className="w-4 h-4 text-red-600" />
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-
-                {users.length === 0 && (
-                  <tr>
-                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
-                      No customers found
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-        )}
-
-        {/* Pagination */}
-        <div className="flex items-center justify-between mt-6">
-          <p className="text-sm text-gray-600">
-            Showing {(page - 1) * limit + 1} to {Math.min(page * limit, total)} from {total}
-            {isFetching && !isLoading ? <span className="ml-2 text-xs text-gray-400">(Updating...)</span> : null}
-          </p>
-
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
-              disabled={page === 1}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronLeft className="w-4 h-4" />
-            </Button>
-
-            {[...Array(Math.min(5, pages))].map((_, i) => {
-              const p = i + 1
-              return (
+              <div className="relative">
                 <Button
-                  key={p}
-                  size="sm"
-                  variant={page === p ? "default" : "outline"}
-                  className={
-                    page === p ? "bg-[#5B9FED] hover:bg-[#4A8FDD] text-white" : "border-gray-200 text-gray-600"
-                  }
-                  onClick={() => setPage(p)}
+                  type="button"
+                  onClick={() => setFiltersOpen((v) => !v)}
+                  className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
                 >
-                  {p}
+                  <Filter className="w-4 h-4" />
+                  Filters
+                  <ChevronDown className="w-4 h-4" />
+                  {activeFiltersCount > 0 && (
+                    <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
+                      {activeFiltersCount}
+                    </span>
+                  )}
                 </Button>
-              )
-            })}
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.min(pages, p + 1))}
-              disabled={page >= pages}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
-        </div>
+
+                {filtersOpen && (
+                  <div className="absolute right-0 mt-2 w-96 rounded-xl border border-gray-200 bg-white shadow-lg p-4 z-50">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="font-semibold text-gray-900">Filters</p>
+                      <Button variant="ghost" size="sm" onClick={() => setFiltersOpen(false)}>
+                        Close
+                      </Button>
+                    </div>
+
+                    {/* Sort */}
+                    <div className="mb-4">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Sort</p>
+                      <div className="space-y-2">
+                        {SORT_OPTIONS.map((opt) => (
+                          <label key={opt.value} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="sort"
+                              checked={sort === opt.value}
+                              onChange={() => setQuery({ sort: opt.value, page: 1 })}
+                            />
+                            {opt.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={clearFilters}>
+                        Clear
+                      </Button>
+                      <Button
+                        className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+                        onClick={() => setFiltersOpen(false)}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <ExportMenu onExport={handleExport} />
+            </>
+          }
+        />
       </Card>
 
       {/* Customer Detail Dialog */}
@@ -364,7 +345,7 @@ export default function CustomersPage() {
                 </Card>
                 <Card className="p-3">
                   <p className="text-xs text-gray-500">Total Spent</p>
-                  <p className="font-semibold text-sm">${getTotalSpent(selectedCustomer).toFixed(2)}</p>
+                  <p className="font-semibold text-sm">{formatMoney(getTotalSpent(selectedCustomer))}</p>
                 </Card>
                 <Card className="p-3">
                   <p className="text-xs text-gray-500">Phone</p>
@@ -405,7 +386,7 @@ export default function CustomersPage() {
                             )}{" "}
                             times
                           </td>
-                          <td className="px-3 py-2 font-semibold">${Number(order.totalAmount ?? 0)}</td>
+                          <td className="px-3 py-2 font-semibold">{formatMoney(order.totalAmount)}</td>
                           <td className="px-3 py-2">
                             <span
                               className={`px-2 py-1 rounded text-xs ${
@@ -432,6 +413,8 @@ export default function CustomersPage() {
                   </table>
                 </div>
               </div>
+
+              {selectedCustomer?._id && <EntityHistory entityType="user" entityId={selectedCustomer._id} />}
             </>
           )}
         </DialogContent>
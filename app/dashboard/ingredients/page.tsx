@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { Plus, Search, Edit2, Trash2 } from "lucide-react"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+import { ingredientsAPI, type IngredientQueryParams } from "@/lib/ingredients-api"
+import { ALLERGENS, ALLERGEN_LABELS } from "@/lib/ingredients"
+import { IngredientDialog } from "@/components/ingredients/ingredient-dialog"
+import { DeleteIngredientDialog } from "@/components/ingredients/delete-ingredient-dialog"
+import { AllergenBadges } from "@/components/ingredients/allergen-badges"
+import type { Ingredient } from "@/lib/types"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { enumParam, pageParam, pageSizeParam, sortParam, textParam, useQueryState } from "@/hooks/use-query-state"
+
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(),
+  sort: sortParam(["name", "createdAt"], "name"),
+  allergen: enumParam(ALLERGENS),
+  q: textParam,
+}
+
+export default function IngredientsPage() {
+  const [query, setQuery] = useQueryState(querySchema)
+  const { can } = usePermissions()
+  const { formatUnitCost } = useCurrency()
+  const { page, limit, sort, allergen } = query
+  const setPage = (next: number) => setQuery({ page: next })
+
+  const [searchQuery, setSearchQuery] = useState(query.q ?? "")
+  const debouncedSearch = useDebouncedValue(searchQuery, 400)
+  const [ingredientDialog, setIngredientDialog] = useState<{
+    open: boolean
+    mode: "add" | "edit"
+    ingredient: Ingredient | null
+  }>({ open: false, mode: "add", ingredient: null })
+  const [deleteDialog, setDeleteDialog] = useState<{
+    open: boolean
+    ingredient: Ingredient | null
+  }>({ open: false, ingredient: null })
+
+  const params: IngredientQueryParams = useMemo(() => {
+    const p: IngredientQueryParams = { page, limit, sort }
+    if (query.q) p.name = query.q
+    if (allergen) p.allergen = allergen
+    return p
+  }, [page, limit, sort, query.q, allergen])
+
+  useEffect(() => {
+    const q = debouncedSearch.trim() || undefined
+    if (q !== query.q) setQuery({ q, page: 1 }, { replace: true })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch])
+
+  useEffect(() => {
+    setSearchQuery((current) => (current.trim() === (query.q ?? "") ? current : query.q ?? ""))
+  }, [query.q])
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ["ingredients", params],
+    queryFn: () => ingredientsAPI.getIngredients(params),
+    placeholderData: keepPreviousData,
+  })
+
+  const ingredients = data?.data ?? []
+  const total = data?.total ?? ingredients.length
+  const pages = data?.pages ?? 1
+
+  const columns: DataTableColumn<Ingredient>[] = [
+    {
+      id: "photo",
+      header: "Photo",
+      cell: (ingredient) =>
+        ingredient.image ? (
+          <img src={ingredient.image} alt={ingredient.name} className="w-12 h-12 rounded object-cover" />
+        ) : (
+          <div className="w-12 h-12 rounded bg-gray-200 flex items-center justify-center text-2xl">🌾</div>
+        ),
+      skeleton: <Skeleton className="w-12 h-12 rounded" />,
+    },
+    {
+      id: "name",
+      header: "Ingredient",
+      sortKey: "name",
+      hideable: false,
+      className: "font-medium",
+      cell: (ingredient) => ingredient.name,
+      skeleton: <Skeleton className="h-4 w-32" />,
+    },
+    {
+      id: "allergens",
+      header: "Allergens",
+      cell: (ingredient) => <AllergenBadges allergens={ingredient.allergens ?? []} />,
+    },
+    ...(can("costing:view")
+      ? [
+          {
+            id: "cost",
+            header: "Cost",
+            cell: (ingredient: Ingredient) =>
+              typeof ingredient.unitCost === "number" ? (
+                `${formatUnitCost(ingredient.unitCost)} / ${ingredient.unit === "each" ? "piece" : ingredient.unit ?? "g"}`
+              ) : (
+                <span className="text-sm text-gray-500">Not costed</span>
+              ),
+          },
+        ]
+      : []),
+    {
+      id: "added",
+      header: "Added",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      cell: (ingredient) => (ingredient.createdAt ? new Date(ingredient.createdAt).toLocaleDateString() : "--"),
+    },
+    {
+      id: "actions",
+      header: "Action",
+      hideable: false,
+      cell: (ingredient) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 bg-transparent"
+            disabled={!can("catalog:edit")}
+            onClick={() => setIngredientDialog({ open: true, mode: "edit", ingredient })}
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 text-red-600 hover:text-red-700 bg-transparent"
+            disabled={!can("catalog:delete")}
+            title={can("catalog:delete") ? undefined : "Your role can't do this"}
+            onClick={() => setDeleteDialog({ open: true, ingredient })}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+      skeleton: (
+        <div className="flex gap-2">
+          <Skeleton className="h-8 w-8 rounded" />
+          <Skeleton className="h-8 w-8 rounded" />
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ingredients</h1>
+          <p className="text-sm text-gray-500">Shared by every product; allergen labels come from here.</p>
+        </div>
+        <Button
+          onClick={() => setIngredientDialog({ open: true, mode: "add", ingredient: null })}
+          disabled={!can("catalog:edit")}
+          className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+        >
+          <Plus className="w-4 h-4" />
+          Add Ingredient
+        </Button>
+      </div>
+
+      <Card className="p-6">
+        <DataTable
+          columns={columns}
+          data={ingredients}
+          getRowId={(ingredient) => ingredient._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No ingredients found"
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="ingredients.hiddenColumns"
+          toolbar={
+            <div className="flex-1 flex flex-wrap items-center gap-3">
+              <div className="relative flex-1 min-w-56">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <Input
+                  placeholder="Search ingredient..."
+                  className="pl-10"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
+              </div>
+              <Select
+                value={allergen ?? "all"}
+                onValueChange={(value) =>
+                  setQuery({ allergen: value === "all" ? undefined : (value as typeof allergen), page: 1 })
+                }
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All allergens</SelectItem>
+                  {ALLERGENS.map((a) => (
+                    <SelectItem key={a} value={a}>
+                      Contains {ALLERGEN_LABELS[a].toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          }
+        />
+      </Card>
+
+      <IngredientDialog
+        open={ingredientDialog.open}
+        onOpenChange={(open) => setIngredientDialog({ ...ingredientDialog, open })}
+        ingredient={ingredientDialog.ingredient}
+        mode={ingredientDialog.mode}
+        onSuccess={() => refetch()}
+      />
+
+      <DeleteIngredientDialog
+        open={deleteDialog.open}
+        onOpenChange={(open) => setDeleteDialog({ ...deleteDialog, open })}
+        ingredient={deleteDialog.ingredient}
+        onSuccess={refetch}
+      />
+    </div>
+  )
+}
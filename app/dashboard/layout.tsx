@@ -1,7 +1,6 @@
 import type React from "react"
-import { getServerSession } from "next-auth/next"
 import { redirect } from "next/navigation"
-import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { getServerAuthSession } from "@/lib/server-session"
 import { DashboardShell } from "@/components/dashboard/shell"
 
 export default async function DashboardLayout({
@@ -9,7 +8,7 @@ export default async function DashboardLayout({
 }: {
   children: React.ReactNode
 }) {
-  const session = await getServerSession(authOptions)
+  const session = await getServerAuthSession()
 
   if (!session) {
     redirect("/auth/login")
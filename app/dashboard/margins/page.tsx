@@ -0,0 +1,154 @@
+"use client"
+
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Coins, Percent, ShoppingBasket, Wallet } from "lucide-react"
+
+import { ordersAPI, type OrderQueryParams } from "@/lib/orders-api"
+import { categoriesAPI } from "@/lib/categories-api"
+import { resolveDateRange } from "@/lib/date-range"
+import { marginByCategory, toMargin, type CategoryMargin } from "@/lib/costing"
+import type { Category } from "@/lib/types"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useCostBook } from "@/hooks/use-cost-book"
+import { useCurrency } from "@/hooks/use-store-settings"
+
+import { Card } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
+import { DateRangePicker } from "@/components/dashboard/date-range-picker"
+
+export default function MarginsPage() {
+  const [dateRange, setDateRange] = useDateRange({ preset: "last30" })
+  const { formatMoney, formatNumber, formatPercent } = useCurrency()
+  const { book, isLoading: loadingCosts } = useCostBook()
+
+  const params: OrderQueryParams = useMemo(() => {
+    const p: OrderQueryParams = {}
+    const range = resolveDateRange(dateRange)
+    if (range) {
+      p.from = range.from.toISOString()
+      p.to = range.to.toISOString()
+    }
+    return p
+  }, [dateRange])
+
+  const { data: orders = [], isLoading: loadingOrders } = useQuery({
+    queryKey: ["orders", "margins", params],
+    queryFn: () => ordersAPI.getAllOrders(params),
+  })
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ["categories"],
+    queryFn: () => categoriesAPI.getCategories({ limit: 1000 }),
+  })
+
+  const categories: Category[] = useMemo(() => {
+    if (Array.isArray(categoriesData)) return categoriesData
+    if (Array.isArray((categoriesData as any)?.data)) return (categoriesData as any).data
+    return []
+  }, [categoriesData])
+
+  const rows = useMemo(() => marginByCategory(orders, categories, book), [orders, categories, book])
+  const totals = useMemo(() => {
+    const sum = (pick: (row: CategoryMargin) => number) => rows.reduce((total, row) => total + pick(row), 0)
+    return {
+      ...toMargin(sum((r) => r.revenue), sum((r) => r.cost)),
+      uncostedRevenue: sum((r) => r.uncostedRevenue),
+    }
+  }, [rows])
+
+  const isLoading = loadingOrders || loadingCosts
+
+  const stats = [
+    { icon: Wallet, label: "Costed Revenue", value: formatMoney(totals.revenue) },
+    { icon: ShoppingBasket, label: "Cost of Goods", value: formatMoney(totals.cost) },
+    { icon: Coins, label: "Gross Margin", value: formatMoney(totals.margin) },
+    { icon: Percent, label: "Margin %", value: totals.ratio === null ? "--" : formatPercent(totals.ratio) },
+  ]
+
+  const columns: DataTableColumn<CategoryMargin>[] = [
+    {
+      id: "category",
+      header: "Category",
+      hideable: false,
+      className: "font-medium",
+      cell: (row) => row.categoryName,
+      skeleton: <Skeleton className="h-4 w-32" />,
+    },
+    { id: "units", header: "Units Sold", cell: (row) => formatNumber(row.units) },
+    { id: "revenue", header: "Revenue", cell: (row) => formatMoney(row.revenue) },
+    { id: "cost", header: "Cost of Goods", cell: (row) => formatMoney(row.cost) },
+    {
+      id: "margin",
+      header: "Gross Margin",
+      cell: (row) => (
+        <span className={row.margin < 0 ? "font-medium text-red-600" : "font-medium"}>{formatMoney(row.margin)}</span>
+      ),
+    },
+    { id: "ratio", header: "Margin %", cell: (row) => (row.ratio === null ? "--" : formatPercent(row.ratio)) },
+    {
+      id: "uncosted",
+      header: "Not Costed",
+      cell: (row) =>
+        row.uncostedRevenue > 0 ? (
+          <span className="text-orange-700">{formatMoney(row.uncostedRevenue)}</span>
+        ) : (
+          <span className="text-gray-400">--</span>
+        ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Margin by Category</h1>
+          <p className="text-sm text-gray-500">
+            What was sold, less the ingredient cost of each product&apos;s recipe. Cancelled orders are left out.
+          </p>
+        </div>
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map((stat) => {
+          const Icon = stat.icon
+          return (
+            <Card key={stat.label} className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600 mb-1">{stat.label}</p>
+                  {isLoading ? (
+                    <Skeleton className="h-8 w-24" />
+                  ) : (
+                    <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                  )}
+                </div>
+                <Icon className="w-10 h-10 text-blue-100" />
+              </div>
+            </Card>
+          )
+        })}
+      </div>
+
+      {!isLoading && totals.uncostedRevenue > 0 && (
+        <p className="text-sm text-orange-700">
+          {formatMoney(totals.uncostedRevenue)} of sales came from products without a recipe and isn&apos;t included
+          above. Add recipe quantities to those products to cost them.
+        </p>
+      )}
+
+      <Card className="p-6">
+        <DataTable
+          columns={columns}
+          data={rows}
+          getRowId={(row) => row.categoryId}
+          isLoading={isLoading}
+          emptyMessage="No sales in this period"
+          visibilityKey="margins.hiddenColumns"
+        />
+      </Card>
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 "use client"
 
 import { useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "next/navigation"
 import { useSession } from "next-auth/react"
-import { io as socketIOClient, type Socket } from "socket.io-client"
 import { chatApi, type Conversation, type Message, type Participant } from "@/lib/chat-api"
 
 import { toast } from "sonner"
 import { ChatSidebar, Customer } from "@/components/chat/ChatSidebar"
 import { ChatWindow } from "@/components/chat/ChatWindow"
+import { useRealtime } from "@/components/realtime/realtime-provider"
 
 const getOtherParticipant = (conv: Conversation, currentUserId: string): Participant | null => {
   return conv.participants.find((p) => p._id !== currentUserId) ?? null
@@ -15,12 +16,11 @@ const getOtherParticipant = (conv: Conversation, currentUserId: string): Partici
 
 export default function MessagesPage() {
   const { data: session } = useSession()
-  const currentUserId = (session?.user as any)?.id || ""
+  const currentUserId = session?.user?.id || ""
 
   console.log("[v0] Messages Page - Session:", {
     hasSession: !!session,
     userId: currentUserId,
-    accessToken: (session?.user as any)?.accessToken,
     user: session?.user,
   })
 
@@ -30,7 +30,8 @@ export default function MessagesPage() {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
   const [loadingMessages, setLoadingMessages] = useState(false)
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const { socket } = useRealtime()
+  const searchParams = useSearchParams()
 
   // Fetch conversations on mount
   useEffect(() => {
@@ -67,21 +68,6 @@ export default function MessagesPage() {
     }
   }, [currentUserId])
 
-  // Socket setup
-  useEffect(() => {
-    const socketUrl = process.env.NEXT_PUBLIC_BASE_URL || ""
-    if (!socketUrl) return
-
-    const s = socketIOClient(socketUrl, {
-      withCredentials: true,
-    })
-    setSocket(s)
-
-    return () => {
-      s.disconnect()
-    }
-  }, [])
-
   // Join room + listen for new messages when conversation changes
   useEffect(() => {
     if (!socket || !selectedConversation?._id) return
@@ -149,6 +135,15 @@ export default function MessagesPage() {
     }
   }
 
+  // Opened from a notification: /dashboard/messages?conversation=<id>
+  const conversationParam = searchParams.get("conversation")
+  useEffect(() => {
+    if (!conversationParam || selectedConversation?._id === conversationParam) return
+    const customer = customers.find((c) => c.conversationId === conversationParam)
+    if (customer) void handleSelectCustomer(customer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationParam, customers])
+
   const handleStartConversation = async (customer: Customer) => {
     await handleSelectCustomer(customer)
   }
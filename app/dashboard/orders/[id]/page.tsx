@@ -0,0 +1,237 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { useParams } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { ArrowLeft, Link2, Undo2 } from "lucide-react"
+
+import { ordersAPI } from "@/lib/orders-api"
+import { isRefundable, refundedAmount } from "@/lib/refunds"
+import { lineUnitPrice } from "@/lib/product-options"
+import { orderCosting, type OrderCosting } from "@/lib/costing"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { useCostBook } from "@/hooks/use-cost-book"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { OrderTimeline } from "@/components/orders/order-timeline"
+import { RefundDialog } from "@/components/orders/refund-dialog"
+import { RefundHistory } from "@/components/orders/refund-history"
+import { LineItemOptions } from "@/components/orders/line-item-options"
+import { EntityHistory } from "@/components/audit/entity-history"
+
+export default function OrderDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const [refundOpen, setRefundOpen] = useState(false)
+  const { can } = usePermissions()
+  const { formatMoney } = useCurrency()
+  const { book, canView: canViewCosts, isLoading: loadingCosts } = useCostBook()
+
+  const { data: order, isLoading, isError } = useQuery({
+    queryKey: ["orders", "detail", id],
+    queryFn: () => ordersAPI.getOrderById(id),
+    enabled: Boolean(id),
+  })
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success("Order link copied")
+    } catch {
+      toast.error("Could not copy link")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Link
+            href="/dashboard/orders"
+            className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Order Lists
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">Order #{String(id ?? "").slice(-6)}</h1>
+        </div>
+
+        <div className="flex gap-2">
+          {order && isRefundable(order) && can("orders:refund") && (
+            <Button
+              type="button"
+              onClick={() => setRefundOpen(true)}
+              className="gap-2 bg-white text-red-600 border border-gray-200 hover:bg-red-50"
+            >
+              <Undo2 className="w-4 h-4" />
+              Refund
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={copyLink}
+            className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+          >
+            <Link2 className="w-4 h-4" />
+            Copy link
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40" />
+          <Skeleton className="h-64" />
+        </div>
+      ) : isError || !order ? (
+        <Card className="p-10 text-center text-sm text-gray-500">Order not found.</Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card className="p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Customer Info</h4>
+                  <p className="text-sm text-gray-600">Name: {order.user?.name ?? "Unknown"}</p>
+                  <p className="text-sm text-gray-600">Email: {order.user?.email ?? "--"}</p>
+                  <p className="text-sm text-gray-600">Phone: {order.phone || "--"}</p>
+                  <p className="text-sm text-gray-600">Address: {order.address || "--"}</p>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Order Info</h4>
+                  <p className="text-sm text-gray-600">
+                    Date: {order.createdAt ? format(new Date(order.createdAt), "PPP p") : "--"}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Status: <span className="font-medium">{order.status ?? "--"}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Payment: <span className="font-medium">{order.paymentStatus ?? "--"}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Fulfilment: <span className="font-medium">{order.pickOrder ? "Pickup" : "Delivery"}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Estimated delivery:{" "}
+                    <span className="font-medium">
+                      {order.estimatedDelivery ? format(new Date(order.estimatedDelivery), "PPP") : "--"}
+                    </span>
+                  </p>
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h4 className="font-semibold text-gray-900 mb-3">Order Items</h4>
+
+              <div className="space-y-3">
+                {(order.items ?? []).map((row, idx) => {
+                  const p = row.item
+                  const price = lineUnitPrice(row)
+                  const qty = Number(row.quantity ?? 0)
+                  const img = p?.images?.[0] || p?.image
+
+                  return (
+                    <div
+                      key={row._id ?? `${order._id}-${idx}`}
+                      className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg"
+                    >
+                      <div className="w-12 h-12 relative rounded-md overflow-hidden bg-white">
+                        <Image src={img || "/placeholder.svg"} alt={p?.name ?? "Product"} fill className="object-cover" />
+                      </div>
+
+                      <div className="flex-1">
+                        <p className="font-medium text-gray-900">{p?.name ?? "Deleted / unavailable product"}</p>
+                        <LineItemOptions options={row.selectedOptions} />
+                        <p className="text-sm text-gray-500">
+                          {formatMoney(price)} x {qty}
+                        </p>
+                      </div>
+
+                      <p className="font-medium text-gray-900">{formatMoney(price * qty)}</p>
+                    </div>
+                  )
+                })}
+
+                {(order.items ?? []).length === 0 && (
+                  <p className="py-6 text-center text-sm text-gray-500">This order has no items.</p>
+                )}
+              </div>
+
+              <div className="flex flex-col items-end gap-1 border-t border-gray-200 mt-4 pt-4">
+                <p className="text-sm text-gray-600">
+                  Total: <span className="text-lg font-bold text-gray-900">{formatMoney(order.totalAmount)}</span>
+                </p>
+                {refundedAmount(order) > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Refunded: <span className="font-semibold text-red-600">-{formatMoney(refundedAmount(order))}</span>
+                    {" · "}Net:{" "}
+                    <span className="font-semibold text-gray-900">
+                      {formatMoney(Number(order.totalAmount ?? 0) - refundedAmount(order))}
+                    </span>
+                  </p>
+                )}
+                {canViewCosts && !loadingCosts && <OrderMargin costing={orderCosting(order, book)} />}
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h4 className="font-semibold text-gray-900 mb-3">Refunds</h4>
+              <RefundHistory order={order} />
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card className="p-6 h-fit">
+              <h4 className="font-semibold text-gray-900 mb-4">Timeline</h4>
+              <OrderTimeline order={order} />
+            </Card>
+
+            {can("audit:view") && (
+              <Card className="p-6 h-fit">
+                <EntityHistory entityType="order" entityId={order._id} />
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+
+      <RefundDialog order={refundOpen && order ? order : null} onOpenChange={setRefundOpen} />
+    </div>
+  )
+}
+
+function OrderMargin({ costing }: { costing: OrderCosting }) {
+  const { formatMoney, formatPercent } = useCurrency()
+
+  if (costing.revenue === 0) {
+    return <p className="text-xs text-gray-500">No recipe costs for these products yet.</p>
+  }
+
+  return (
+    <>
+      <p className="text-sm text-gray-600">
+        Cost of goods: <span className="font-semibold text-gray-900">{formatMoney(costing.cost)}</span>
+        {" · "}Gross margin:{" "}
+        <span className={costing.margin < 0 ? "font-semibold text-red-600" : "font-semibold text-green-700"}>
+          {formatMoney(costing.margin)}
+          {costing.ratio !== null && ` (${formatPercent(costing.ratio)})`}
+        </span>
+      </p>
+      {costing.uncostedRevenue > 0 && (
+        <p className="text-xs text-gray-500">
+          Excludes {formatMoney(costing.uncostedRevenue)} from products without a recipe.
+        </p>
+      )}
+      {costing.uncostedRevenue === 0 && !costing.complete && (
+        <p className="text-xs text-orange-700">Some ingredients have no cost yet, so the real margin is lower.</p>
+      )}
+    </>
+  )
+}
@@ -3,44 +3,86 @@
 import { useEffect, useMemo, useState } from "react"
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { ordersAPI, type OrderQueryParams } from "@/lib/orders-api"
+import {
+  ORDER_STATUSES,
+  PAYMENT_STATUSES,
+  nextOrderStatuses,
+  nextPaymentStatuses,
+  OrderTransitionError,
+  requiresConfirmation,
+  type OrderStatusChange,
+} from "@/lib/order-status"
 import type { Order } from "@/lib/types"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useDateRange } from "@/hooks/use-date-range"
+import { enumParam, pageParam, pageSizeParam, sortParam, textParam, useQueryState } from "@/hooks/use-query-state"
+import { toRangeParams } from "@/lib/date-range"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
 
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Checkbox } from "@/components/ui/checkbox"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { BulkOrderActions } from "@/components/orders/bulk-order-actions"
+import { RefundDialog } from "@/components/orders/refund-dialog"
+import { LineItemOptions } from "@/components/orders/line-item-options"
+import { ExportMenu } from "@/components/dashboard/export-menu"
+import { DateRangePicker } from "@/components/dashboard/date-range-picker"
+import { exportOrders, type ExportFormat } from "@/lib/export"
 
 import { toast } from "sonner"
 import { format } from "date-fns"
 import Image from "next/image"
+import Link from "next/link"
 
 import {
   Search,
   Filter,
-  ChevronLeft,
-  ChevronRight,
   Eye,
   Trash2,
   ChevronDown,
 } from "lucide-react"
 
+const SORT_OPTIONS = [
+  { label: "Newest", value: "-createdAt" },
+  { label: "Oldest", value: "createdAt" },
+  { label: "Total: Low → High", value: "totalAmount" },
+  { label: "Total: High → Low", value: "-totalAmount" },
+] as const
+
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(),
+  sort: sortParam(["createdAt", "totalAmount"], "-createdAt"),
+  status: enumParam(ORDER_STATUSES),
+  paymentStatus: enumParam(PAYMENT_STATUSES),
+  q: textParam,
+}
+
 export default function OrdersPage() {
-  const limit = 10
+  // page, sort and filters live in the URL so links and back/forward restore the view
+  const [query, setQuery] = useQueryState(querySchema)
+  const { page, limit, sort, status, paymentStatus } = query
+  const setPage = (next: number) => setQuery({ page: next })
 
-  const [page, setPage] = useState(1)
-  const [searchTerm, setSearchTerm] = useState("")
+  const [searchTerm, setSearchTerm] = useState(query.q ?? "")
+  const debouncedSearch = useDebouncedValue(searchTerm, 400)
 
   // ✅ ProductsPage-like filters dropdown
   const [filtersOpen, setFiltersOpen] = useState(false)
-  const [status, setStatus] = useState<"" | Order["status"]>("")
-  const [paymentStatus, setPaymentStatus] = useState<"" | Order["paymentStatus"]>("")
-  const [sort, setSort] = useState<string>("-createdAt")
-  const [timeRange, setTimeRange] = useState<"all" | "day" | "week" | "month" | "year">("all")
+  const [dateRange, setDateRange] = useDateRange({ preset: "all" })
 
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [orderToDelete, setOrderToDelete] = useState<Order | null>(null)
+  const [orderToRefund, setOrderToRefund] = useState<Order | null>(null)
+  const { can } = usePermissions()
+  const { formatMoney, currency, locale } = useCurrency()
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [pendingChange, setPendingChange] = useState<({ order: Order } & OrderStatusChange) | null>(null)
 
   const queryClient = useQueryClient()
 
@@ -49,15 +91,27 @@ export default function OrdersPage() {
     const p: OrderQueryParams = { page, limit, sort }
     if (status) p.status = status
     if (paymentStatus) p.paymentStatus = paymentStatus
-    if (timeRange && timeRange !== "all") p.timeRange = timeRange
+    Object.assign(p, toRangeParams(dateRange))
+    if (query.q) p.search = query.q.replace(/^#/, "")
     return p
-  }, [page, limit, sort, status, paymentStatus, timeRange])
+  }, [page, limit, sort, status, paymentStatus, dateRange, query.q])
 
-  // ✅ reset page when filters change (not search)
+  // ✅ typing replaces the history entry rather than adding one per keystroke
   useEffect(() => {
-    setPage(1)
+    const q = debouncedSearch.trim() || undefined
+    if (q !== query.q) setQuery({ q, page: 1 }, { replace: true })
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [status, paymentStatus, sort, timeRange])
+  }, [debouncedSearch])
+
+  // keep the box in sync when back/forward changes the URL
+  useEffect(() => {
+    setSearchTerm((current) => (current.trim() === (query.q ?? "") ? current : query.q ?? ""))
+  }, [query.q])
+
+  // selection is per page; drop it whenever the visible page changes
+  useEffect(() => {
+    setSelectedIds(new Set())
+  }, [params])
 
   const { data: ordersData, isLoading, isFetching } = useQuery({
     queryKey: ["orders", params],
@@ -66,22 +120,26 @@ export default function OrdersPage() {
   })
 
   const updateStatusMutation = useMutation({
-    mutationFn: ({
-      id,
-      status,
-      paymentStatus,
-    }: {
-      id: string
-      status?: Order["status"]
-      paymentStatus?: Order["paymentStatus"]
-    }) => ordersAPI.updateOrderStatus(id, { status, paymentStatus }),
+    mutationFn: ({ order, ...change }: { order: Order } & OrderStatusChange) =>
+      ordersAPI.updateOrderStatus(order._id, change, order),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["orders"] })
       toast.success("Order updated successfully")
+      setPendingChange(null)
     },
-    onError: () => toast.error("Failed to update order"),
+    onError: (error) =>
+      toast.error(error instanceof OrderTransitionError ? error.message : "Failed to update order"),
   })
 
+  // Terminal moves (Delivered, Cancelled, Refunded) go through a confirm dialog first
+  const requestStatusChange = (order: Order, change: OrderStatusChange) => {
+    if (requiresConfirmation(change)) {
+      setPendingChange({ order, ...change })
+      return
+    }
+    updateStatusMutation.mutate({ order, ...change })
+  }
+
   const deleteOrderMutation = useMutation({
     mutationFn: (id: string) => ordersAPI.deleteOrder(id),
     onSuccess: () => {
@@ -96,427 +154,374 @@ export default function OrdersPage() {
   const total = ordersData?.data?.total ?? 0
   const pages = ordersData?.data?.pages ?? 1
 
-  // ✅ client-side search (optional; backend search not implemented in your controller)
-  const filteredOrders = useMemo(() => {
-    const q = searchTerm.trim().toLowerCase()
-    if (!q) return orders
+  const selectedOrders = orders.filter((o) => selectedIds.has(o._id))
+  const allOnPageSelected = orders.length > 0 && selectedOrders.length === orders.length
 
-    return orders.filter((o) => {
-      const id = String(o?._id ?? "").toLowerCase()
-      const name = String(o?.user?.name ?? "").toLowerCase()
-      return id.includes(q) || name.includes(q)
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
     })
-  }, [orders, searchTerm])
+  }
+
+  const toggleAllOnPage = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(orders.map((o) => o._id)) : new Set())
+  }
 
   const activeFiltersCount =
     (status ? 1 : 0) +
     (paymentStatus ? 1 : 0) +
-    (timeRange !== "all" ? 1 : 0) +
     (sort !== "-createdAt" ? 1 : 0)
 
+  const handleExport = async (fileFormat: ExportFormat) => {
+    const count = await exportOrders(params, fileFormat, { currency, locale })
+    toast.success(`Exported ${count} orders`)
+  }
+
   const clearFilters = () => {
-    setStatus("")
-    setPaymentStatus("")
-    setSort("-createdAt")
-    setTimeRange("all")
-    setPage(1)
+    setQuery({ status: undefined, paymentStatus: undefined, sort: "-createdAt", page: 1 })
     setFiltersOpen(false)
   }
 
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold text-gray-900">Order Lists</h1>
-      </div>
+  const columns: DataTableColumn<Order>[] = [
+    {
+      id: "select",
+      hideable: false,
+      header: (
+        <Checkbox
+          aria-label="Select all orders on this page"
+          className="border-white"
+          checked={allOnPageSelected ? true : selectedOrders.length > 0 ? "indeterminate" : false}
+          onCheckedChange={(v) => toggleAllOnPage(v === true)}
+        />
+      ),
+      cell: (order) => (
+        <Checkbox
+          aria-label={`Select order #${String(order._id).slice(-6)}`}
+          checked={selectedIds.has(order._id)}
+          onCheckedChange={(v) => toggleSelected(order._id, v === true)}
+        />
+      ),
+      skeleton: <Skeleton className="h-4 w-4" />,
+    },
+    {
+      id: "id",
+      header: "Order Id",
+      className: "font-medium",
+      cell: (order) => `#${String(order._id).slice(-6)}`,
+    },
+    {
+      id: "product",
+      header: "Product",
+      cell: (order) => {
+        const product = order.items?.[0]?.item ?? null
+        const coverImage = product?.images?.[0] || product?.image
+
+        return (
+          <div className="flex items-center gap-2">
+            {coverImage && (
+              <div className="w-10 h-10 relative rounded-lg overflow-hidden">
+                <Image
+                  src={coverImage || "/placeholder.svg"}
+                  alt={product?.name ?? "Order item"}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+            )}
 
-      <Card className="p-6">
-        <div className="flex gap-4 mb-6">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-            <Input
-              placeholder="Search by order ID or customer..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+            <div>
+              <p className="font-medium">{product?.name ?? "Deleted / unavailable product"}</p>
+              <LineItemOptions options={order.items?.[0]?.selectedOptions} showPrices={false} />
+              {(order.items?.length ?? 0) > 1 && (
+                <p className="text-xs text-gray-500">+{order.items.length - 1} more</p>
+              )}
+            </div>
           </div>
-
-          {/* ✅ Fixed Filters Button (ProductsPage style) */}
-          <div className="relative">
+        )
+      },
+      skeleton: <Skeleton className="h-10 w-40" />,
+    },
+    {
+      id: "date",
+      header: "Date",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      cell: (order) => (order.createdAt ? format(new Date(order.createdAt), "dd MMM, yyyy") : "--"),
+    },
+    {
+      id: "customer",
+      header: "Customer",
+      cell: (order) => (
+        <div>
+          <p className="font-medium">{order.user?.name ?? "Unknown"}</p>
+          <p className="text-xs text-gray-500">{order.user?.email ?? "--"}</p>
+        </div>
+      ),
+    },
+    {
+      id: "total",
+      header: "Total",
+      sortKey: "totalAmount",
+      sortDescFirst: true,
+      className: "font-semibold",
+      cell: (order) => formatMoney(order.totalAmount),
+    },
+    {
+      id: "payment",
+      header: "Payment",
+      cell: (order) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
             <Button
-              type="button"
-              onClick={() => setFiltersOpen((v) => !v)}
-              className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+              size="sm"
+              disabled={!can("orders:update")}
+              className={`${
+                order.paymentStatus === "Paid"
+                  ? "bg-[#83DA71] hover:bg-green-500 text-white"
+                  : order.paymentStatus === "Failed"
+                    ? "bg-red-300 hover:bg-red-400 text-white"
+                    : order.paymentStatus === "Refunded"
+                      ? "bg-gray-300 hover:bg-gray-400 text-white"
+                      : "bg-orange-300 hover:bg-orange-400 text-white"
+              }`}
             >
-              <Filter className="w-4 h-4" />
-              Filters
-              <ChevronDown className="w-4 h-4" />
-              {activeFiltersCount > 0 && (
-                <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
-                  {activeFiltersCount}
-                </span>
-              )}
+              {order.paymentStatus ?? "--"}
             </Button>
-
-            {filtersOpen && (
-              <div className="absolute right-0 mt-2 w-96 rounded-xl border border-gray-200 bg-white shadow-lg p-4 z-50">
-                <div className="flex items-center justify-between mb-3">
-                  <p className="font-semibold text-gray-900">Filters</p>
-                  <Button variant="ghost" size="sm" onClick={() => setFiltersOpen(false)}>
-                    Close
-                  </Button>
-                </div>
-
-                {/* Sort */}
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-900 mb-2">Sort</p>
-                  <div className="space-y-2">
-                    {[
-                      { label: "Newest", value: "-createdAt" },
-                      { label: "Oldest", value: "createdAt" },
-                      { label: "Total: Low → High", value: "totalAmount" },
-                      { label: "Total: High → Low", value: "-totalAmount" },
-                    ].map((opt) => (
-                      <label key={opt.value} className="flex items-center gap-2 text-sm text-gray-700">
-                        <input
-                          type="radio"
-                          name="sort"
-                          checked={sort === opt.value}
-                          onChange={() => setSort(opt.value)}
-                        />
-                        {opt.label}
-                      </label>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Order Status */}
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-900 mb-2">Order Status</p>
-                  <div className="space-y-2">
-                    {(
-                      [
-                        { label: "All", value: "" },
-                        { label: "Pending", value: "Pending" },
-                        { label: "Processing", value: "Processing" },
-                        { label: "Delivered", value: "Delivered" },
-                        { label: "Cancelled", value: "Cancelled" },
-                      ] as const
-                    ).map((opt) => (
-                      <label key={opt.label} className="flex items-center gap-2 text-sm text-gray-700">
-                        <input
-                          type="radio"
-                          name="status"
-                          checked={status === opt.value}
-                          onChange={() => setStatus(opt.value)}
-                        />
-                        {opt.label}
-                      </label>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Payment Status */}
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-900 mb-2">Payment Status</p>
-                  <div className="space-y-2">
-                    {(
-                      [
-                        { label: "All", value: "" },
-                        { label: "Paid", value: "Paid" },
-                        { label: "Pending", value: "Pending" },
-                        { label: "Failed", value: "Failed" },
-                        { label: "Refunded", value: "Refunded" },
-                      ] as const
-                    ).map((opt) => (
-                      <label key={opt.label} className="flex items-center gap-2 text-sm text-gray-700">
-                        <input
-                          type="radio"
-                          name="paymentStatus"
-                          checked={paymentStatus === opt.value}
-                          onChange={() => setPaymentStatus(opt.value)}
-                        />
-                        {opt.label}
-                      </label>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Time Range */}
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-900 mb-2">Time Range</p>
-                  <div className="space-y-2">
-                    {(
-                      [
-                        { label: "All", value: "all" },
-                        { label: "Today", value: "day" },
-                        { label: "This Week", value: "week" },
-                        { label: "This Month", value: "month" },
-                        { label: "This Year", value: "year" },
-                      ] as const
-                    ).map((opt) => (
-                      <label key={opt.label} className="flex items-center gap-2 text-sm text-gray-700">
-                        <input
-                          type="radio"
-                          name="timeRange"
-                          checked={timeRange === opt.value}
-                          onChange={() => setTimeRange(opt.value)}
-                        />
-                        {opt.label}
-                      </label>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={clearFilters}>
-                    Clear
-                  </Button>
-                  <Button
-                    className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-                    onClick={() => setFiltersOpen(false)}
-                  >
-                    Apply
-                  </Button>
-                </div>
-              </div>
+          </DropdownMenuTrigger>
+
+          <DropdownMenuContent align="end">
+            {nextPaymentStatuses(order.paymentStatus).map((ps) =>
+              ps === "Refunded" ? (
+                <DropdownMenuItem key={ps} disabled={!can("orders:refund")} onClick={() => setOrderToRefund(order)}>
+                  Refund...
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem key={ps} onClick={() => requestStatusChange(order, { paymentStatus: ps })}>
+                  Mark as {ps}
+                </DropdownMenuItem>
+              ),
             )}
-          </div>
-        </div>
+            {nextPaymentStatuses(order.paymentStatus).length === 0 && (
+              <DropdownMenuItem disabled>No further changes</DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+    {
+      id: "status",
+      header: "Order Status",
+      cell: (order) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" disabled={!can("orders:update")} className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white">
+              {order.status ?? "--"}
+            </Button>
+          </DropdownMenuTrigger>
 
-        {isLoading ? (
-          <div className="space-y-2">
-            {[...Array(5)].map((_, i) => (
-              <Skeleton key={i} className="h-16" />
+          <DropdownMenuContent align="end">
+            {nextOrderStatuses(order.status).map((s) => (
+              <DropdownMenuItem key={s} onClick={() => requestStatusChange(order, { status: s })}>
+                {s}
+              </DropdownMenuItem>
             ))}
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead className="bg-[#7B3F00] text-white">
-                <tr>
-                  <th className="px-4 py-3 text-left font-bold">Order Id</th>
-                  <th className="px-4 py-3 text-left font-bold">Product</th>
-                  <th className="px-4 py-3 text-left font-bold">Date</th>
-                  <th className="px-4 py-3 text-left font-bold">Customer</th>
-                  <th className="px-4 py-3 text-left font-bold">Total</th>
-                  <th className="px-4 py-3 text-left font-bold">Payment</th>
-                  <th className="px-4 py-3 text-left font-bold">Order Status</th>
-                  <th className="px-4 py-3 text-left font-bold">Payment Status</th>
-                  <th className="px-4 py-3 text-left font-bold">Action</th>
-                </tr>
-              </thead>
-
-              <tbody>
-                {filteredOrders.map((order: any) => {
-                  const firstRow = order.items?.[0]
-                  const product = firstRow?.item ?? null
-                  const coverImage = product?.images?.[0] || product?.image
-
-                  return (
-                    <tr key={order._id} className="border-b border-gray-200 hover:bg-gray-50">
-                      <td className="px-4 py-3 font-medium">#{String(order._id).slice(-6)}</td>
-
-                      <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                          {coverImage && (
-                            <div className="w-10 h-10 relative rounded-lg overflow-hidden">
-                              <Image
-                                src={coverImage || "/placeholder.svg"}
-                                alt={product?.name ?? "Order item"}
-                                fill
-                                className="object-cover"
-                              />
-                            </div>
-                          )}
-
-                          <div>
-                            <p className="font-medium">{product?.name ?? "Deleted / unavailable product"}</p>
-                            {(order.items?.length ?? 0) > 1 && (
-                              <p className="text-xs text-gray-500">+{order.items.length - 1} more</p>
-                            )}
-                          </div>
-                        </div>
-                      </td>
-
-                      <td className="px-4 py-3">
-                        {order.createdAt ? format(new Date(order.createdAt), "dd MMM, yyyy") : "--"}
-                      </td>
-
-                      <td className="px-4 py-3">
-                        <div>
-                          <p className="font-medium">{order.user?.name ?? "Unknown"}</p>
-                          <p className="text-xs text-gray-500">{order.user?.email ?? "--"}</p>
-                        </div>
-                      </td>
-
-                      <td className="px-4 py-3 font-semibold">${Number(order.totalAmount ?? 0)}</td>
-
-                      <td className="px-4 py-3">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button
-                              size="sm"
-                              className={`${
-                                order.paymentStatus === "Paid"
-                                  ? "bg-[#83DA71] hover:bg-green-500 text-white"
-                                  : order.paymentStatus === "Failed"
-                                    ? "bg-red-300 hover:bg-red-400 text-white"
-                                    : order.paymentStatus === "Refunded"
-                                      ? "bg-gray-300 hover:bg-gray-400 text-white"
-                                      : "bg-orange-300 hover:bg-orange-400 text-white"
-                              }`}
-                            >
-                              {order.paymentStatus ?? "--"}
-                            </Button>
-                          </DropdownMenuTrigger>
-
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem
-                              onClick={() =>
-                                updateStatusMutation.mutate({
-                                  id: order._id,
-                                  paymentStatus: "Paid",
-                                })
-                              }
-                            >
-                              Mark as Paid
-                            </DropdownMenuItem>
-
-                            <DropdownMenuItem
-                              onClick={() =>
-                                updateStatusMutation.mutate({
-                                  id: order._id,
-                                  paymentStatus: "Pending",
-                                })
-                              }
-                            >
-                              Mark as Pending
-                            </DropdownMenuItem>
-
-                          <DropdownMenuItem
-                            onClick={() =>
-                              updateStatusMutation.mutate({
-                                id: order._id,
-                                paymentStatus: "Failed",
-                              })
-                            }
-                          >
-                            Mark as Failed
-                          </DropdownMenuItem>
-
-                            <DropdownMenuItem
-                              onClick={() =>
-                                updateStatusMutation.mutate({
-                                  id: order._id,
-                                  paymentStatus: "Refunded",
-                                })
-                              }
-                            >
-                              Mark as Refunded
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </td>
-
-                      <td className="px-4 py-3">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button size="sm" className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white">
-                              {order.status ?? "--"}
-                            </Button>
-                          </DropdownMenuTrigger>
-
-                          <DropdownMenuContent align="end">
-                            {(["Pending", "Processing", "Delivered", "Cancelled"] as const).map((s) => (
-                              <DropdownMenuItem
-                                key={s}
-                                onClick={() =>
-                                  updateStatusMutation.mutate({
-                                    id: order._id,
-                                    status: s,
-                                  })
-                                }
-                              >
-                                {s}
-                              </DropdownMenuItem>
-                            ))}
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </td>
-
-                      <td className="px-4 py-3">{order.paymentStatus ?? "--"}</td>
-
-                      <td className="px-4 py-3">
-                        <Button size="icon" variant="ghost" onClick={() => setSelectedOrder(order)}>
-                          <Eye className="w-4 h-4 text-gray-500" />
-                        </Button>
-
-                        <Button size="icon" variant="ghost" onClick={() => setOrderToDelete(order)}>
-                          <Trash2 className="w-4 h-4 text-red-500" />
-                        </Button>
-                      </td>
-                    </tr>
-                  )
-                })}
-              </tbody>
-            </table>
-
-            {filteredOrders.length === 0 && (
-              <div className="py-10 text-center text-sm text-gray-500">No orders found.</div>
+            {nextOrderStatuses(order.status).length === 0 && (
+              <DropdownMenuItem disabled>No further changes</DropdownMenuItem>
             )}
-          </div>
-        )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+    {
+      id: "paymentStatus",
+      header: "Payment Status",
+      cell: (order) => order.paymentStatus ?? "--",
+    },
+    {
+      id: "actions",
+      header: "Action",
+      hideable: false,
+      cell: (order) => (
+        <>
+          <Button size="icon" variant="ghost" asChild>
+            <Link href={`/dashboard/orders/${order._id}`}>
+              <Eye className="w-4 h-4 text-gray-500" />
+            </Link>
+          </Button>
+
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={!can("orders:delete")}
+            title={can("orders:delete") ? "Delete order" : "Your role can't do this"}
+            onClick={() => setOrderToDelete(order)}
+          >
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </Button>
+        </>
+      ),
+      skeleton: <Skeleton className="h-8 w-16" />,
+    },
+  ]
 
-        <div className="flex items-center justify-between mt-6">
-          <p className="text-sm text-gray-600">
-            Showing {(page - 1) * limit + 1} to {Math.min(page * limit, total)} from {total}
-            {isFetching && !isLoading ? (
-              <span className="ml-2 text-xs text-gray-400">(Updating...)</span>
-            ) : null}
-          </p>
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Order Lists</h1>
+      </div>
 
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
-              disabled={page === 1}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronLeft className="w-4 h-4" />
-            </Button>
+      <Card className="p-6">
+        <DataTable
+          columns={columns}
+          data={orders}
+          getRowId={(order) => order._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No orders found."
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="orders.hiddenColumns"
+          toolbar={
+            <>
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <Input
+                  placeholder="Search by order ID, customer, email or phone..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
 
-            {[...Array(Math.min(5, pages))].map((_, i) => {
-              const p = i + 1
-              return (
+              {/* ✅ Fixed Filters Button (ProductsPage style) */}
+              <div className="relative">
                 <Button
-                  key={p}
-                  size="sm"
-                  variant={page === p ? "default" : "outline"}
-                  className={
-                    page === p
-                      ? "bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-                      : "border-gray-200 text-gray-600"
-                  }
-                  onClick={() => setPage(p)}
+                  type="button"
+                  onClick={() => setFiltersOpen((v) => !v)}
+                  className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
                 >
-                  {p}
+                  <Filter className="w-4 h-4" />
+                  Filters
+                  <ChevronDown className="w-4 h-4" />
+                  {activeFiltersCount > 0 && (
+                    <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
+                      {activeFiltersCount}
+                    </span>
+                  )}
                 </Button>
-              )
-            })}
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.min(pages, p + 1))}
-              disabled={page >= pages}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
-        </div>
+                {filtersOpen && (
+                  <div className="absolute right-0 mt-2 w-96 rounded-xl border border-gray-200 bg-white shadow-lg p-4 z-50">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="font-semibold text-gray-900">Filters</p>
+                      <Button variant="ghost" size="sm" onClick={() => setFiltersOpen(false)}>
+                        Close
+                      </Button>
+                    </div>
+
+                    {/* Sort */}
+                    <div className="mb-4">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Sort</p>
+                      <div className="space-y-2">
+                        {SORT_OPTIONS.map((opt) => (
+                          <label key={opt.value} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="sort"
+                              checked={sort === opt.value}
+                              onChange={() => setQuery({ sort: opt.value, page: 1 })}
+                            />
+                            {opt.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Order Status */}
+                    <div className="mb-4">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Order Status</p>
+                      <div className="space-y-2">
+                        {(
+                          [
+                            { label: "All", value: undefined },
+                            { label: "Pending", value: "Pending" },
+                            { label: "Processing", value: "Processing" },
+                            { label: "Delivered", value: "Delivered" },
+                            { label: "Cancelled", value: "Cancelled" },
+                          ] as const
+                        ).map((opt) => (
+                          <label key={opt.label} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="status"
+                              checked={status === opt.value}
+                              onChange={() => setQuery({ status: opt.value, page: 1 })}
+                            />
+                            {opt.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Payment Status */}
+                    <div className="mb-4">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Payment Status</p>
+                      <div className="space-y-2">
+                        {(
+                          [
+                            { label: "All", value: undefined },
+                            { label: "Paid", value: "Paid" },
+                            { label: "Pending", value: "Pending" },
+                            { label: "Failed", value: "Failed" },
+                            { label: "Refunded", value: "Refunded" },
+                          ] as const
+                        ).map((opt) => (
+                          <label key={opt.label} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="paymentStatus"
+                              checked={paymentStatus === opt.value}
+                              onChange={() => setQuery({ paymentStatus: opt.value, page: 1 })}
+                            />
+                            {opt.label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={clearFilters}>
+                        Clear
+                      </Button>
+                      <Button
+                        className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+                        onClick={() => setFiltersOpen(false)}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+
+              <ExportMenu onExport={handleExport} />
+            </>
+          }
+          actionBar={<BulkOrderActions orders={selectedOrders} onClear={() => setSelectedIds(new Set())} />}
+        />
       </Card>
 
       {/* Delete Confirm Dialog */}
@@ -550,85 +555,37 @@ export default function OrdersPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Details Dialog */}
-      <Dialog open={!!selectedOrder} onOpenChange={() => setSelectedOrder(null)}>
-        <DialogContent className="max-w-2xl">
+      <RefundDialog order={orderToRefund} onOpenChange={(open) => !open && setOrderToRefund(null)} />
+
+      {/* Terminal Status Confirm Dialog */}
+      <Dialog open={!!pendingChange} onOpenChange={() => setPendingChange(null)}>
+        <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Order Details #{String(selectedOrder?._id ?? "").slice(-6)}</DialogTitle>
+            <DialogTitle>Confirm Status Change</DialogTitle>
           </DialogHeader>
 
-          {selectedOrder && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <h4 className="font-semibold text-gray-900 mb-2">Customer Info</h4>
-                  <p className="text-sm text-gray-600">Name: {selectedOrder.user?.name ?? "Unknown"}</p>
-                  <p className="text-sm text-gray-600">Email: {selectedOrder.user?.email ?? "—"}</p>
-                  <p className="text-sm text-gray-600">Phone: {selectedOrder.phone ?? "—"}</p>
-                  <p className="text-sm text-gray-600">Address: {selectedOrder.address ?? "—"}</p>
-                </div>
-
-                <div>
-                  <h4 className="font-semibold text-gray-900 mb-2">Order Info</h4>
-                  <p className="text-sm text-gray-600">
-                    Date: {selectedOrder.createdAt ? format(new Date(selectedOrder.createdAt), "PPP") : "—"}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Status: <span className="font-medium">{selectedOrder.status ?? "—"}</span>
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Payment: <span className="font-medium">{selectedOrder.paymentStatus ?? "—"}</span>
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Pickup: <span className="font-medium">{selectedOrder.pickOrder ? "Yes" : "No"}</span>
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Total: <span className="font-bold">${Number(selectedOrder.totalAmount ?? 0)}</span>
-                  </p>
-                </div>
-              </div>
-
-              <div>
-                <h4 className="font-semibold text-gray-900 mb-3">Order Items</h4>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {pendingChange?.status
+                ? `Mark order #${String(pendingChange.order._id).slice(-6)} as ${pendingChange.status}?`
+                : `Mark payment for order #${String(pendingChange?.order._id ?? "").slice(-6)} as ${pendingChange?.paymentStatus}?`}{" "}
+              This is final and cannot be changed afterwards.
+            </p>
 
-                <div className="space-y-3">
-                  {(selectedOrder.items ?? []).map((row, idx) => {
-                    const p = row.item
-                    const price = Number(p?.price ?? 0)
-                    const qty = Number(row.quantity ?? 0)
-                    const img = p?.images?.[0] || p?.image
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setPendingChange(null)}>
+                No
+              </Button>
 
-                    return (
-                      <div
-                        key={row._id ?? `${selectedOrder._id}-${idx}`}
-                        className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg"
-                      >
-                        <div className="w-12 h-12 relative rounded-md overflow-hidden bg-white">
-                          <Image
-                            src={img || "/placeholder.svg"}
-                            alt={p?.name ?? "Product"}
-                            fill
-                            className="object-cover"
-                          />
-                        </div>
-
-                        <div className="flex-1">
-                          <p className="font-medium text-gray-900">
-                            {p?.name ?? "Deleted / unavailable product"}
-                          </p>
-                          <p className="text-sm text-gray-500">
-                            ${price} x {qty}
-                          </p>
-                        </div>
-
-                        <p className="font-medium text-gray-900">${(price * qty).toFixed(2)}</p>
-                      </div>
-                    )
-                  })}
-                </div>
-              </div>
+              <Button
+                className="bg-red-600 hover:bg-red-700 text-white"
+                onClick={() => pendingChange && updateStatusMutation.mutate(pendingChange)}
+                disabled={updateStatusMutation.isPending}
+              >
+                {updateStatusMutation.isPending ? "Updating..." : "Yes, Continue"}
+              </Button>
             </div>
-          )}
+          </div>
         </DialogContent>
       </Dialog>
     </div>
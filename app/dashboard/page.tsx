@@ -1,10 +1,9 @@
-import { getServerSession } from "next-auth/next"
 import { redirect } from "next/navigation"
-import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { getServerAuthSession } from "@/lib/server-session"
 import { DashboardOverview } from "@/components/dashboard/overview"
 
 export default async function DashboardPage() {
-  const session = await getServerSession(authOptions)
+  const session = await getServerAuthSession()
 
   if (!session) {
     redirect("/auth/login")
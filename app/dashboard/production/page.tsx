@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { endOfDay, format, parseISO, startOfDay } from "date-fns"
+import { Printer } from "lucide-react"
+
+import { ordersAPI, type OrderQueryParams } from "@/lib/orders-api"
+import { categoriesAPI } from "@/lib/categories-api"
+import { aggregateProduction } from "@/lib/production"
+import type { Category, Order } from "@/lib/types"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ProductionSheet } from "@/components/production/production-sheet"
+import { PackingSlip } from "@/components/production/packing-slip"
+
+// "open" = still to be baked / handed over; the backend only filters by one status
+// at a time, so that one is applied client-side.
+const statusOptions = [
+  { value: "open", label: "Open (Pending + Processing)" },
+  { value: "Pending", label: "Pending" },
+  { value: "Processing", label: "Processing" },
+  { value: "Delivered", label: "Delivered" },
+  { value: "all", label: "All except Cancelled" },
+] as const
+
+type StatusOption = (typeof statusOptions)[number]["value"]
+
+// Re-checked here too, so an order without a due date never lands on a day's sheet
+function isDueBetween(order: Order, { dueFrom, dueTo }: OrderQueryParams) {
+  if (!order.estimatedDelivery) return false
+  const due = new Date(order.estimatedDelivery).getTime()
+  if (Number.isNaN(due)) return false
+  return (!dueFrom || due >= new Date(dueFrom).getTime()) && (!dueTo || due <= new Date(dueTo).getTime())
+}
+
+export default function ProductionPage() {
+  const today = format(new Date(), "yyyy-MM-dd")
+  const [from, setFrom] = useState(today)
+  const [to, setTo] = useState(today)
+  const [status, setStatus] = useState<StatusOption>("open")
+  const [view, setView] = useState<"sheet" | "slips">("sheet")
+  const [printRequested, setPrintRequested] = useState(false)
+
+  const params: OrderQueryParams = useMemo(() => {
+    // bakers plan by the day an order is due, not the day it was placed
+    const p: OrderQueryParams = { sort: "estimatedDelivery" }
+    if (from) p.dueFrom = startOfDay(parseISO(from)).toISOString()
+    if (to) p.dueTo = endOfDay(parseISO(to)).toISOString()
+    if (status !== "open" && status !== "all") p.status = status
+    return p
+  }, [from, to, status])
+
+  const { data: fetchedOrders = [], isLoading } = useQuery({
+    queryKey: ["orders", "production", params],
+    queryFn: () => ordersAPI.getAllOrders(params),
+  })
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ["categories"],
+    queryFn: () => categoriesAPI.getCategories({ limit: 1000 }),
+  })
+
+  const categories: Category[] = useMemo(() => categoriesData?.data ?? [], [categoriesData])
+
+  const orders: Order[] = useMemo(
+    () =>
+      fetchedOrders.filter((o) =>
+        (status === "open" ? o.status === "Pending" || o.status === "Processing" : o.status !== "Cancelled") &&
+        isDueBetween(o, params),
+      ),
+    [fetchedOrders, status, params],
+  )
+
+  const groups = useMemo(() => aggregateProduction(orders, categories), [orders, categories])
+  const totalItems = groups.reduce((sum, g) => sum + g.quantity, 0)
+
+  // Print after the chosen tab has rendered
+  useEffect(() => {
+    if (!printRequested) return
+    setPrintRequested(false)
+    window.print()
+  }, [printRequested])
+
+  const print = (target: "sheet" | "slips") => {
+    setView(target)
+    setPrintRequested(true)
+  }
+
+  const rangeLabel =
+    from && from === to ? `Due ${format(parseISO(from), "EEEE, dd MMM yyyy")}` : `Due ${from || "…"} → ${to || "…"}`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <h1 className="text-3xl font-bold text-gray-900">Production</h1>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            onClick={() => print("sheet")}
+            disabled={isLoading || groups.length === 0}
+            className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print sheet
+          </Button>
+          <Button
+            type="button"
+            onClick={() => print("slips")}
+            disabled={isLoading || orders.length === 0}
+            className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+          >
+            <Printer className="w-4 h-4" />
+            Print packing slips
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-4 print:hidden">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="production-from">Due from</Label>
+            <Input id="production-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="production-to">Due to</Label>
+            <Input id="production-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(v) => setStatus(v as StatusOption)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="ml-auto text-sm text-gray-600">
+            {orders.length} orders · {totalItems} items
+          </p>
+        </div>
+      </Card>
+
+      <Tabs value={view} onValueChange={(v) => setView(v as "sheet" | "slips")}>
+        <TabsList className="print:hidden">
+          <TabsTrigger value="sheet">Production sheet</TabsTrigger>
+          <TabsTrigger value="slips">Packing slips</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="sheet">
+          <Card className="p-6 print:border-0 print:shadow-none print:p-0">
+            <div className="mb-4">
+              <h2 className="text-xl font-bold text-gray-900">Production sheet</h2>
+              <p className="text-sm text-gray-500">{rangeLabel}</p>
+            </div>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-10" />
+                ))}
+              </div>
+            ) : (
+              <ProductionSheet groups={groups} />
+            )}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="slips">
+          {isLoading ? (
+            <Skeleton className="h-64" />
+          ) : orders.length === 0 ? (
+            <Card className="p-10 text-center text-sm text-gray-500">No orders for this selection.</Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 print:block">
+              {orders.map((order) => (
+                <PackingSlip key={order._id} order={order} />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
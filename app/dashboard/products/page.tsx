@@ -2,29 +2,60 @@
 
 import { useEffect, useMemo, useState } from "react"
 import { keepPreviousData, useQuery } from "@tanstack/react-query"
-import { Plus, Edit2, Trash2, Eye, ChevronLeft, ChevronRight } from "lucide-react"
+import { z } from "zod"
+import { Plus, Edit2, Trash2, Eye, FileUp } from "lucide-react"
 
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import { DataTable, type DataTableColumn } from "@/components/ui/data-table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 import { productsAPI, type ProductQueryParams } from "@/lib/products-api"
 import { categoriesAPI } from "@/lib/categories-api"
 import { ProductDialog } from "@/components/products/product-dialog"
 import { DeleteProductDialog } from "@/components/products/delete-product-dialog"
+import { ProductImportDialog } from "@/components/products/product-import-dialog"
+import { AllergenBadges } from "@/components/ingredients/allergen-badges"
 import type { Product, Category } from "@/lib/types"
+import { STOCK_BADGE_CLASSES, STOCK_LABELS, STOCK_STATUSES, stockStatus } from "@/lib/inventory"
+import { productAllergens } from "@/lib/ingredients"
+import { productMargin } from "@/lib/costing"
+import { enumParam, pageParam, pageSizeParam, sortParam, useQueryState } from "@/hooks/use-query-state"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { useIngredientLibrary } from "@/hooks/use-ingredient-library"
+import { useCostBook } from "@/hooks/use-cost-book"
 import Image from "next/image"
 
 function getCategoryName(cat: Product["category"]): string {
   return typeof cat === "string" ? cat : cat?.name ?? "N/A"
 }
 
+const querySchema = {
+  page: pageParam,
+  limit: pageSizeParam(),
+  sort: sortParam(["name", "price", "stock", "createdAt"], "-createdAt"),
+  stock: enumParam(STOCK_STATUSES),
+  // category _id; anything that isn't an ObjectId means "all"
+  category: z.string().regex(/^[a-f\d]{24}$/i).optional().catch(undefined),
+  // product _id to open for editing, e.g. from a low-stock notification
+  product: z.string().regex(/^[a-f\d]{24}$/i).optional().catch(undefined),
+}
+
 export default function ProductsPage() {
-  const limit = 10
-  const [page, setPage] = useState(1)
-  const [categoryFilter, setCategoryFilter] = useState<string>("all")
+  const [query, setQuery] = useQueryState(querySchema)
+  const { can } = usePermissions()
+  const { formatMoney, formatNumber, formatPercent } = useCurrency()
+  const { library } = useIngredientLibrary()
+  const { book, canView: canViewCosts } = useCostBook()
+  const { page, limit, sort, stock } = query
+  const categoryFilter = query.category ?? "all"
+  const setPage = (next: number) => setQuery({ page: next })
+  const setCategoryFilter = (value: string) =>
+    setQuery({ category: value === "all" ? undefined : value, page: 1 })
   const [categorySearch, setCategorySearch] = useState<string>("")
 
   const [productDialog, setProductDialog] = useState<{
@@ -37,14 +68,16 @@ export default function ProductsPage() {
     open: boolean
     product: Product | null
   }>({ open: false, product: null })
+  const [importOpen, setImportOpen] = useState(false)
 
   const params: ProductQueryParams = useMemo(() => {
-    const next: ProductQueryParams = { page, limit }
+    const next: ProductQueryParams = { page, limit, sort }
     if (categoryFilter !== "all") {
       next.category = categoryFilter
     }
+    if (stock) next.stock = stock
     return next
-  }, [page, limit, categoryFilter])
+  }, [page, limit, sort, categoryFilter, stock])
 
   const {
     data: categoriesData,
@@ -77,16 +110,24 @@ export default function ProductsPage() {
     [filteredCategories],
   )
 
-  useEffect(() => {
-    setPage(1)
-  }, [categoryFilter])
-
   const { data: productsData, isLoading, isFetching, refetch } = useQuery({
     queryKey: ["products", params],
     queryFn: () => productsAPI.getProducts(params),
     placeholderData: keepPreviousData,
   })
 
+  const { data: linkedProduct } = useQuery({
+    queryKey: ["products", "detail", query.product],
+    queryFn: () => productsAPI.getProductById(query.product!),
+    enabled: !!query.product,
+  })
+
+  useEffect(() => {
+    if (linkedProduct) {
+      setProductDialog({ open: true, mode: can("catalog:edit") ? "edit" : "view", product: linkedProduct })
+    }
+  }, [linkedProduct, can])
+
   const products = productsData?.data.items ?? []
   const total = productsData?.data.total ?? 0
   const pages = productsData?.data.pages ?? 1
@@ -94,12 +135,138 @@ export default function ProductsPage() {
   const selectedCategoryLabel =
     categoryOptions.find((c) => c.value === categoryFilter)?.label ?? "All categories"
 
-  const visibleCount = 5
-  const start = Math.max(1, Math.min(page - 2, pages - visibleCount + 1))
-  const visiblePages = Array.from(
-    { length: Math.min(visibleCount, pages) },
-    (_, i) => start + i
-  )
+  const columns: DataTableColumn<Product>[] = [
+    {
+      id: "product",
+      header: "Product",
+      sortKey: "name",
+      hideable: false,
+      cell: (product) => (
+        <div className="flex items-center gap-2">
+          <Image
+            src={product.images?.[0] || product.image || "/placeholder.svg"}
+            alt={product.name}
+            width={500}
+            height={500}
+            className="w-8 h-8"
+          />
+          <span className="font-medium">{product.name}</span>
+        </div>
+      ),
+      skeleton: (
+        <div className="flex items-center gap-2">
+          <Skeleton className="w-8 h-8 rounded" />
+          <Skeleton className="h-4 w-32" />
+        </div>
+      ),
+    },
+    {
+      id: "category",
+      header: "Category",
+      cell: (product) => getCategoryName(product.category),
+    },
+    {
+      id: "price",
+      header: "Price",
+      sortKey: "price",
+      cell: (product) => formatMoney(product.price),
+    },
+    ...(canViewCosts
+      ? [
+          {
+            id: "margin",
+            header: "Margin",
+            cell: (product: Product) => {
+              const margin = productMargin(product, book)
+              if (!margin) return <span className="text-sm text-gray-500">No recipe</span>
+              return (
+                <div title={margin.complete ? undefined : "Some ingredients have no cost yet"}>
+                  <p className={margin.margin < 0 ? "font-medium text-red-600" : "font-medium"}>
+                    {formatMoney(margin.margin)}
+                    {margin.ratio !== null && ` · ${formatPercent(margin.ratio)}`}
+                    {!margin.complete && " *"}
+                  </p>
+                  <p className="text-xs text-gray-500">Cost {formatMoney(margin.cost)}</p>
+                </div>
+              )
+            },
+          },
+        ]
+      : []),
+    {
+      id: "allergens",
+      header: "Allergens",
+      cell: (product) => <AllergenBadges allergens={productAllergens(product, library)} />,
+    },
+    {
+      id: "stock",
+      header: "Stock",
+      sortKey: "stock",
+      cell: (product) => {
+        const status = stockStatus(product)
+        return (
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary" className={STOCK_BADGE_CLASSES[status]}>
+              {STOCK_LABELS[status]}
+            </Badge>
+            {typeof product.stock === "number" && (
+              <span className="text-sm text-gray-600">{formatNumber(product.stock)}</span>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      id: "added",
+      header: "Added",
+      sortKey: "createdAt",
+      sortDescFirst: true,
+      cell: (product) => (product.createdAt ? new Date(product.createdAt).toLocaleDateString() : "N/A"),
+    },
+    {
+      id: "actions",
+      header: "Action",
+      hideable: false,
+      cell: (product) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 bg-transparent"
+            onClick={() => setProductDialog({ open: true, mode: "view", product })}
+          >
+            <Eye className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 bg-transparent"
+            disabled={!can("catalog:edit")}
+            onClick={() => setProductDialog({ open: true, mode: "edit", product })}
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 text-red-600 hover:text-red-700 bg-transparent"
+            disabled={!can("catalog:delete")}
+            title={can("catalog:delete") ? undefined : "Your role can't do this"}
+            onClick={() => setDeleteDialog({ open: true, product })}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+      skeleton: (
+        <div className="flex gap-2">
+          <Skeleton className="h-8 w-8 rounded" />
+          <Skeleton className="h-8 w-8 rounded" />
+          <Skeleton className="h-8 w-8 rounded" />
+        </div>
+      ),
+    },
+  ]
 
   return (
     <div className="space-y-6">
@@ -111,15 +278,26 @@ export default function ProductsPage() {
           </p>
         </div>
 
-        <Button
-          onClick={() =>
-            setProductDialog({ open: true, mode: "add", product: null })
-          }
-          className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-        >
-          <Plus className="w-4 h-4" />
-          Add Product
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => setImportOpen(true)}
+            disabled={!can("catalog:edit")}
+            className="gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+          >
+            <FileUp className="w-4 h-4" />
+            Import
+          </Button>
+          <Button
+            onClick={() =>
+              setProductDialog({ open: true, mode: "add", product: null })
+            }
+            disabled={!can("catalog:edit")}
+            className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+          >
+            <Plus className="w-4 h-4" />
+            Add Product
+          </Button>
+        </div>
       </div>
 
       {/* Category filters */}
@@ -165,195 +343,63 @@ export default function ProductsPage() {
       </Card>
 
       <Card className="p-6">
-        {/* Table */}
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead className="bg-[#7B3F00] text-white">
-              <tr>
-                <th className="px-4 py-3 text-left font-bold">Product</th>
-                <th className="px-4 py-3 text-left font-bold">Category</th>
-                <th className="px-4 py-3 text-left font-bold">Price</th>
-                <th className="px-4 py-3 text-left font-bold">Added</th>
-                <th className="px-4 py-3 text-left font-bold">Action</th>
-              </tr>
-            </thead>
-
-            <tbody>
-              {isLoading ? (
-                Array.from({ length: 5 }).map((_, i) => (
-                  <tr key={i} className="border-b border-gray-200">
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-2">
-                        <Skeleton className="w-8 h-8 rounded" />
-                        <Skeleton className="h-4 w-32" />
-                      </div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-20" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-16" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <Skeleton className="h-4 w-24" />
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        <Skeleton className="h-8 w-8 rounded" />
-                        <Skeleton className="h-8 w-8 rounded" />
-                        <Skeleton className="h-8 w-8 rounded" />
-                      </div>
-                    </td>
-                  </tr>
-                ))
-              ) : products.length === 0 ? (
-                <tr>
-                  <td
-                    colSpan={5}
-                    className="px-4 py-8 text-center text-gray-500"
-                  >
-                    No products found
-                  </td>
-                </tr>
-              ) : (
-                products.map((product) => (
-                  <tr
-                    key={product._id}
-                    className="border-b border-gray-200 hover:bg-gray-50"
-                  >
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-2">
-                        <Image
-                          src={product.images?.[0] || product.image || "/placeholder.svg"}
-                          alt={product.name}
-                          width={500}
-                          height={500}
-                          className="w-8 h-8"
-                        />
-                        <span className="font-medium">{product.name}</span>
-                      </div>
-                    </td>
-
-                    <td className="px-4 py-3">
-                      {getCategoryName(product.category)}
-                    </td>
-
-                    <td className="px-4 py-3">
-                      ${Number(product.price ?? 0).toFixed(2)}
-                    </td>
-
-                    <td className="px-4 py-3">
-                      {product.createdAt
-                        ? new Date(product.createdAt).toLocaleDateString()
-                        : "N/A"}
-                    </td>
-
-                    <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="gap-1 bg-transparent"
-                          onClick={() =>
-                            setProductDialog({ open: true, mode: "view", product })
-                          }
-                        >
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="gap-1 bg-transparent"
-                          onClick={() =>
-                            setProductDialog({ open: true, mode: "edit", product })
-                          }
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="gap-1 text-red-600 hover:text-red-700 bg-transparent"
-                          onClick={() => setDeleteDialog({ open: true, product })}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
-
-        {/* Pagination */}
-        <div className="flex items-center justify-between mt-6">
-          <p className="text-sm text-gray-600">
-            {total === 0 ? (
-              <>Showing 0 to 0 from 0</>
-            ) : (
-              <>
-                Showing {(page - 1) * limit + 1} to{" "}
-                {Math.min(page * limit, total)} from {total}
-              </>
-            )}
-            {isFetching && !isLoading ? (
-              <span className="ml-2 text-xs text-gray-400">(Updating...)</span>
-            ) : null}
-          </p>
-
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
-              disabled={page === 1}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronLeft className="w-4 h-4" />
-            </Button>
-
-            {visiblePages.map((p) => (
-              <Button
-                key={p}
-                size="sm"
-                variant={page === p ? "default" : "outline"}
-                className={
-                  page === p
-                    ? "bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-                    : "border-gray-200 text-gray-600"
+        <DataTable
+          columns={columns}
+          data={products}
+          getRowId={(product) => product._id}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          emptyMessage="No products found"
+          sort={sort}
+          onSortChange={(next) => setQuery({ sort: next as typeof sort, page: 1 })}
+          pagination={{
+            page,
+            pageSize: limit,
+            total,
+            pages,
+            onPageChange: setPage,
+            onPageSizeChange: (next) => setQuery({ limit: next, page: 1 }),
+          }}
+          visibilityKey="products.hiddenColumns"
+          toolbar={
+            <div className="flex-1">
+              <Select
+                value={stock ?? "all"}
+                onValueChange={(value) =>
+                  setQuery({ stock: value === "all" ? undefined : (value as typeof stock), page: 1 })
                 }
-                onClick={() => setPage(p)}
               >
-                {p}
-              </Button>
-            ))}
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.min(pages, p + 1))}
-              disabled={page >= pages}
-              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
-            >
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
-        </div>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All stock levels</SelectItem>
+                  {STOCK_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {STOCK_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          }
+        />
       </Card>
 
       {/* Dialogs */}
       <ProductDialog
         open={productDialog.open}
-        onOpenChange={(open) =>
+        onOpenChange={(open) => {
           setProductDialog((prev) => ({ ...prev, open }))
-        }
+          if (!open && query.product) setQuery({ product: undefined }, { replace: true })
+        }}
         product={productDialog.product}
         mode={productDialog.mode}
         onSuccess={refetch}
       />
 
+      <ProductImportDialog open={importOpen} onOpenChange={setImportOpen} onSuccess={refetch} />
+
       <DeleteProductDialog
         open={deleteDialog.open}
         onOpenChange={(open) =>
@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { signOut } from "next-auth/react"
+import { formatDistanceToNow } from "date-fns"
+import { LogOut, Monitor, Smartphone } from "lucide-react"
+import { toast } from "sonner"
+
+import { authAPI } from "@/lib/auth-api"
+import {
+  describeDevice,
+  IDLE_TIMEOUT_KEY,
+  IDLE_TIMEOUT_OPTIONS,
+  loadIdleTimeout,
+  saveIdleTimeout,
+  type AuthSession,
+} from "@/lib/sessions"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+const isMobile = (session: AuthSession) => /iPhone|iPad|Android/.test(session.userAgent ?? "")
+
+export default function SecurityPage() {
+  const queryClient = useQueryClient()
+  const [confirmSignOutAll, setConfirmSignOutAll] = useState(false)
+  const [idleTimeout, setIdleTimeout] = useState(0)
+
+  useEffect(() => {
+    setIdleTimeout(loadIdleTimeout())
+  }, [])
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ["auth", "sessions"],
+    queryFn: authAPI.getSessions,
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => authAPI.revokeSession(id),
+    onSuccess: () => {
+      toast.success("Session signed out")
+      queryClient.invalidateQueries({ queryKey: ["auth", "sessions"] })
+    },
+    onError: () => toast.error("Failed to sign out that session"),
+  })
+
+  const revokeAllMutation = useMutation({
+    mutationFn: () => authAPI.revokeAllSessions(),
+    onSuccess: async () => {
+      toast.success("Signed out everywhere")
+      await signOut({ callbackUrl: "/auth/login" })
+    },
+    onError: () => toast.error("Failed to sign out everywhere"),
+  })
+
+  const handleIdleTimeoutChange = (value: string) => {
+    const minutes = Number(value)
+    saveIdleTimeout(minutes)
+    setIdleTimeout(minutes)
+    // other tabs pick it up from the storage event; this one needs a nudge
+    window.dispatchEvent(new StorageEvent("storage", { key: IDLE_TIMEOUT_KEY }))
+    toast.success("Idle timeout updated")
+  }
+
+  const sorted = [...sessions].sort(
+    (a, b) => Number(!!b.current) - Number(!!a.current) || b.lastSeenAt.localeCompare(a.lastSeenAt),
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Security</h1>
+        <p className="text-sm text-gray-600">Devices signed in to your account and how long a session may sit idle.</p>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex items-start justify-between gap-3 flex-wrap mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Active sessions</h3>
+            <p className="text-sm text-gray-500">Sign out any device you don&apos;t recognise.</p>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2 text-red-600 hover:text-red-700"
+            disabled={revokeAllMutation.isPending}
+            onClick={() => setConfirmSignOutAll(true)}
+          >
+            <LogOut className="w-4 h-4" />
+            Sign out everywhere
+          </Button>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-14 w-full my-2" />)
+          ) : sorted.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">No active sessions found.</p>
+          ) : (
+            sorted.map((session) => {
+              const Icon = isMobile(session) ? Smartphone : Monitor
+              return (
+                <div key={session._id} className="flex items-center gap-4 py-3">
+                  <Icon className="w-6 h-6 text-gray-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <Badge variant="secondary" className="bg-[#DCEBFB] text-[#2D6CB8]">
+                          This device
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[session.ip, session.location].filter(Boolean).join(" · ") || "Unknown location"}
+                      {" · "}
+                      {session.current
+                        ? "Active now"
+                        : `Last seen ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={revokeMutation.isPending && revokeMutation.variables === session._id}
+                      onClick={() => revokeMutation.mutate(session._id)}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold">Idle timeout</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Sign out automatically on this browser when the dashboard hasn&apos;t been used for a while.
+        </p>
+        <div className="space-y-2 max-w-xs">
+          <Label>Sign me out</Label>
+          <Select value={String(idleTimeout)} onValueChange={handleIdleTimeoutChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IDLE_TIMEOUT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+
+      <AlertDialog open={confirmSignOutAll} onOpenChange={setConfirmSignOutAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will have to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revokeAllMutation.mutate()}>Sign out everywhere</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { enumParam, useQueryState } from "@/hooks/use-query-state"
+import { useStoreSettings } from "@/hooks/use-store-settings"
+import { usePermissions } from "@/hooks/use-permissions"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { StoreProfileForm } from "@/components/settings/store-profile-form"
+import { PricingForm } from "@/components/settings/pricing-form"
+import { FulfilmentForm } from "@/components/settings/fulfilment-form"
+import { NotificationsForm } from "@/components/settings/notifications-form"
+
+const TABS = ["profile", "pricing", "fulfilment", "notifications"] as const
+
+const querySchema = {
+  tab: enumParam(TABS, "profile"),
+}
+
+export default function SettingsPage() {
+  const [query, setQuery] = useQueryState(querySchema)
+  const { settings, isLoading, isError, refetch } = useStoreSettings()
+  const { can } = usePermissions()
+  const readOnly = !can("settings:manage")
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-sm text-gray-600">How the store presents itself, charges, delivers and keeps staff informed.</p>
+      </div>
+
+      <Tabs value={query.tab} onValueChange={(tab) => setQuery({ tab: tab as typeof query.tab }, { replace: true })}>
+        <TabsList>
+          <TabsTrigger value="profile">Store profile</TabsTrigger>
+          <TabsTrigger value="pricing">Currency &amp; tax</TabsTrigger>
+          <TabsTrigger value="fulfilment">Delivery &amp; pickup</TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
+        </TabsList>
+
+        <Card className="p-6">
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : isError ? (
+            <div className="py-6 text-center space-y-3">
+              <p className="text-sm text-gray-500">Settings couldn&apos;t be loaded.</p>
+              <Button variant="outline" onClick={() => refetch()}>
+                Try again
+              </Button>
+            </div>
+          ) : (
+            <>
+              <TabsContent value="profile">
+                <StoreProfileForm values={settings.profile} readOnly={readOnly} />
+              </TabsContent>
+              <TabsContent value="pricing">
+                <PricingForm values={settings.pricing} readOnly={readOnly} />
+              </TabsContent>
+              <TabsContent value="fulfilment">
+                <FulfilmentForm values={settings.fulfilment} readOnly={readOnly} />
+              </TabsContent>
+              <TabsContent value="notifications">
+                <NotificationsForm values={settings.notifications} readOnly={readOnly} />
+              </TabsContent>
+            </>
+          )}
+        </Card>
+      </Tabs>
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ import { useQuery } from "@tanstack/react-query"
 import { productsAPI } from "@/lib/products-api"
 import { categoriesAPI } from "@/lib/categories-api"
 import type { Category, Product } from "@/lib/types"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCurrency } from "@/hooks/use-store-settings"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -40,6 +42,8 @@ export default function SpecialItemsPage() {
   const [selectedDay, setSelectedDay] = useState<string>("mon")
   const [selectedCategory, setSelectedCategory] = useState<string>("all")
   const [search, setSearch] = useState("")
+  const { can } = usePermissions()
+  const { formatMoney } = useCurrency()
 
   const { data, isLoading, refetch } = useQuery({
     queryKey: ["special-items", page, limit],
@@ -187,7 +191,7 @@ export default function SpecialItemsPage() {
             className="w-56"
           />
           <Button
-            disabled={!changedIds.length || saving}
+            disabled={!changedIds.length || saving || !can("catalog:edit")}
             className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
             onClick={saveChanges}
           >
@@ -253,7 +257,7 @@ export default function SpecialItemsPage() {
                           </div>
                           <div>
                             <p className="font-semibold text-gray-900">{item.name}</p>
-                            <p className="text-xs text-gray-500">Price: ${Number(item.price ?? 0).toFixed(2)}</p>
+                            <p className="text-xs text-gray-500">Price: {formatMoney(item.price)}</p>
                           </div>
                         </div>
                       </td>
@@ -1,18 +1,45 @@
 "use client"
 
-import { SessionProvider } from "next-auth/react"
+import { SessionProvider, useSession } from "next-auth/react"
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 import { Toaster } from "sonner"
-import type { ReactNode } from "react"
+import { RealtimeProvider } from "@/components/realtime/realtime-provider"
+import { NotificationsProvider } from "@/components/notifications/notifications-provider"
+import { useEffect, type ReactNode } from "react"
+import { setAccessToken } from "@/lib/auth-token"
+import { setSessionUpdater } from "@/lib/session-refresh"
 
 const queryClient = new QueryClient()
 
+// Feeds the session's backend token to the API layer (lib/auth-token.ts) and lets
+// silent refreshes (lib/session-refresh.ts) go through SessionProvider
+function AuthTokenSync() {
+  const { data: session, status, update } = useSession()
+  const accessToken = session?.user?.accessToken
+
+  useEffect(() => {
+    if (status !== "loading") setAccessToken(accessToken)
+  }, [status, accessToken])
+
+  useEffect(() => {
+    setSessionUpdater(update)
+    return () => setSessionUpdater(null)
+  }, [update])
+
+  return null
+}
+
 export function Providers({ children }: { children: ReactNode }) {
   return (
     <SessionProvider>
+      <AuthTokenSync />
       <QueryClientProvider client={queryClient}>
-        {children}
-        <Toaster />
+        <RealtimeProvider>
+          <NotificationsProvider>
+            {children}
+            <Toaster />
+          </NotificationsProvider>
+        </RealtimeProvider>
       </QueryClientProvider>
     </SessionProvider>
   )
@@ -0,0 +1,42 @@
+import { formatAuditValue, type AuditEntry } from "@/lib/audit"
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  refund: "Refunded",
+}
+
+export function auditActionLabel(action: AuditEntry["action"]) {
+  return ACTION_LABELS[action] ?? action
+}
+
+/** before → after per field; deletes list the removed values only */
+export function AuditChanges({ entry, limit }: { entry: AuditEntry; limit?: number }) {
+  const changes = limit ? entry.changes.slice(0, limit) : entry.changes
+  const hidden = entry.changes.length - changes.length
+
+  if (entry.changes.length === 0) {
+    return <p className="text-xs text-gray-400">No field changes recorded</p>
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {changes.map((change) => (
+        <li key={change.field} className="text-gray-600">
+          <span className="font-medium text-gray-900">{change.field}</span>{" "}
+          {entry.action === "delete" ? (
+            <span className="line-through">{formatAuditValue(change.before)}</span>
+          ) : (
+            <>
+              <span className="text-red-600">{formatAuditValue(change.before)}</span>
+              {" → "}
+              <span className="text-green-700">{formatAuditValue(change.after)}</span>
+            </>
+          )}
+        </li>
+      ))}
+      {hidden > 0 && <li className="text-gray-400">+{hidden} more</li>}
+    </ul>
+  )
+}
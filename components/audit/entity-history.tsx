@@ -0,0 +1,58 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+
+import { auditAPI } from "@/lib/audit-api"
+import type { AuditEntityType } from "@/lib/audit"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Skeleton } from "@/components/ui/skeleton"
+import { AuditChanges, auditActionLabel } from "./audit-changes"
+
+interface EntityHistoryProps {
+  entityType: AuditEntityType
+  entityId: string
+}
+
+/** Who changed this order / product / customer, newest first */
+export function EntityHistory({ entityType, entityId }: EntityHistoryProps) {
+  const { can } = usePermissions()
+  const allowed = can("audit:view")
+
+  const { data: entries = [], isLoading, isError } = useQuery({
+    queryKey: ["audit", entityType, entityId],
+    queryFn: () => auditAPI.getEntityHistory(entityType, entityId),
+    enabled: allowed && !!entityId,
+  })
+
+  if (!allowed) return null
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 mb-3">History</h4>
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-gray-500">History is unavailable right now.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      ) : (
+        <ol className="space-y-3 border-l border-gray-200 pl-4">
+          {entries.map((entry) => (
+            <li key={entry._id}>
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{auditActionLabel(entry.action)}</span> by{" "}
+                {entry.actor?.name ?? "Unknown"}
+              </p>
+              <p className="text-xs text-gray-500 mb-1">{format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm")}</p>
+              <AuditChanges entry={entry} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -11,6 +11,8 @@ import { Input } from "@/components/ui/input"
 // import { Card } from "@/components/ui/card" // Not used, removed from imports
 import { toast } from "sonner"
 import { Loader2, Eye, EyeOff } from "lucide-react" // ✅ Added Eye and EyeOff icons
+import { parseTwoFactorChallenge, type TwoFactorChallenge } from "@/lib/two-factor"
+import { TwoFactorStep } from "./two-factor-step"
 
 export function LoginForm() {
   const router = useRouter()
@@ -19,6 +21,16 @@ export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [rememberMe, setRememberMe] = useState(false)
   const [showPassword, setShowPassword] = useState(false) // ✅ New state for password visibility
+  // Set when the account has two-factor on and the password was accepted
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+
+  const completeLogin = () => {
+    toast.success("Login successful!")
+    if (rememberMe) {
+      localStorage.setItem("email", email)
+    }
+    router.push("/dashboard")
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -31,16 +43,13 @@ export function LoginForm() {
         redirect: false,
       })
 
-      if (result?.error) {
+      const twoFactor = parseTwoFactorChallenge(result?.error)
+      if (twoFactor) {
+        setChallenge(twoFactor)
+      } else if (result?.error) {
         toast.error(result.error || "Login failed")
       } else if (result?.ok) {
-        toast.success("Login successful!")
-        if (rememberMe) {
-          localStorage.setItem("email", email)
-        }
-        // NOTE: Storing tokens in localStorage is generally discouraged when using NextAuth.js/HTTP-only cookies.
-        // I will remove the comment about localStorage token storage as it's not implemented here.
-        router.push("/dashboard")
+        completeLogin()
       }
     } catch (error) {
       toast.error("An error occurred during login")
@@ -49,6 +58,17 @@ export function LoginForm() {
     }
   }
 
+  if (challenge) {
+    return (
+      <TwoFactorStep
+        email={email}
+        challenge={challenge}
+        onVerified={completeLogin}
+        onBack={() => setChallenge(null)}
+      />
+    )
+  }
+
   return (
     <div className="p-8 ">
       <h2 className="text-2xl font-bold text-gray-900 mb-2">Login to Account</h2>
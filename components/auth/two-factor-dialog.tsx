@@ -0,0 +1,270 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { Copy, Download, Loader2, Mail, ShieldCheck, Smartphone } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { authAPI } from "@/lib/auth-api"
+import { recoveryCodesFile, type TwoFactorMethod, type TwoFactorSetup } from "@/lib/two-factor"
+
+interface TwoFactorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  email: string
+}
+
+const methodLabel: Record<TwoFactorMethod, string> = {
+  totp: "Authenticator app",
+  email: "Email code",
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }).map((_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.message || fallback
+
+export function TwoFactorDialog({ open, onOpenChange, email }: TwoFactorDialogProps) {
+  const queryClient = useQueryClient()
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ["auth", "two-factor"],
+    queryFn: authAPI.getTwoFactorStatus,
+    enabled: open,
+  })
+
+  const reset = () => {
+    setSetup(null)
+    setRecoveryCodes(null)
+    setCode("")
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const showCodes = ({ recoveryCodes }: { recoveryCodes: string[] }) => {
+    queryClient.invalidateQueries({ queryKey: ["auth", "two-factor"] })
+    setSetup(null)
+    setCode("")
+    setRecoveryCodes(recoveryCodes)
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: authAPI.setupTwoFactor,
+    onSuccess: (data) => {
+      setSetup(data)
+      setCode("")
+    },
+    onError: (error) => toast.error(errorMessage(error, "Failed to start two-factor setup")),
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: authAPI.enableTwoFactor,
+    onSuccess: (data) => {
+      toast.success("Two-factor authentication is on")
+      showCodes(data)
+    },
+    onError: (error) => toast.error(errorMessage(error, "That code didn't work")),
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: authAPI.regenerateRecoveryCodes,
+    onSuccess: showCodes,
+    onError: (error) => toast.error(errorMessage(error, "That code didn't work")),
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: authAPI.disableTwoFactor,
+    onSuccess: () => {
+      toast.success("Two-factor authentication is off")
+      queryClient.invalidateQueries({ queryKey: ["auth", "two-factor"] })
+      setCode("")
+    },
+    onError: (error) => toast.error(errorMessage(error, "That code didn't work")),
+  })
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes!.join("\n"))
+    toast.success("Recovery codes copied")
+  }
+
+  const downloadCodes = () => {
+    const blob = new Blob([recoveryCodesFile(email, recoveryCodes!)], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "recovery-codes.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Save these somewhere safe. Each one signs you in once if you lose access to your codes, and they
+            won&apos;t be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-lg border border-gray-200 bg-gray-50 p-4 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <span key={c}>{c}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1 gap-2" onClick={copyCodes}>
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button variant="outline" className="flex-1 gap-2" onClick={downloadCodes}>
+              <Download className="w-4 h-4" />
+              Download
+            </Button>
+          </div>
+          <Button className="w-full bg-[#5B9FED] hover:bg-[#4A8FDD] text-white" onClick={() => handleOpenChange(false)}>
+            I&apos;ve saved them
+          </Button>
+        </div>
+      )
+    }
+
+    if (isLoading || !status) {
+      return <Skeleton className="h-32 w-full" />
+    }
+
+    if (setup) {
+      return (
+        <div className="space-y-4">
+          {setup.method === "totp" ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Scan this with your authenticator app, or enter the key by hand, then type the 6-digit code it shows.
+              </p>
+              {setup.qrCode && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={setup.qrCode} alt="Authenticator QR code" className="mx-auto h-44 w-44" />
+              )}
+              {setup.secret && (
+                <p className="rounded-lg bg-gray-50 p-3 text-center font-mono text-sm break-all">{setup.secret}</p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">We sent a 6-digit code to {email}. Enter it to finish.</p>
+          )}
+          <div className="flex justify-center">
+            <CodeInput value={code} onChange={setCode} />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setSetup(null)}>
+              Back
+            </Button>
+            <Button
+              className="flex-1 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+              disabled={code.length !== 6 || enableMutation.isPending}
+              onClick={() => enableMutation.mutate(code)}
+            >
+              {enableMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Turn on"}
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Ask for a code after your password when you sign in on a new device. Choose where the code comes from:
+          </p>
+          {(["totp", "email"] as const).map((method) => {
+            const Icon = method === "totp" ? Smartphone : Mail
+            return (
+              <Button
+                key={method}
+                variant="outline"
+                className="w-full justify-start gap-3 h-auto py-3"
+                disabled={setupMutation.isPending}
+                onClick={() => setupMutation.mutate(method)}
+              >
+                <Icon className="w-5 h-5" />
+                <span className="text-left">
+                  <span className="block font-medium">{methodLabel[method]}</span>
+                  <span className="block text-xs text-gray-500">
+                    {method === "totp" ? "Google Authenticator, 1Password, Authy..." : `Sent to ${email}`}
+                  </span>
+                </span>
+              </Button>
+            )
+          })}
+        </div>
+      )
+    }
+
+    const busy = regenerateMutation.isPending || disableMutation.isPending
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3 rounded-lg bg-green-50 p-3 text-sm text-green-800">
+          <ShieldCheck className="w-5 h-5" />
+          <span>
+            On, using {status.method ? methodLabel[status.method].toLowerCase() : "a verification code"}
+            {typeof status.recoveryCodesLeft === "number" && ` · ${status.recoveryCodesLeft} recovery codes left`}
+          </span>
+        </div>
+        <div className="space-y-2">
+          <Label>Enter a current code to make changes</Label>
+          <CodeInput value={code} onChange={setCode} />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={code.length !== 6 || busy}
+            onClick={() => regenerateMutation.mutate(code)}
+          >
+            New recovery codes
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1 text-red-600 hover:text-red-700"
+            disabled={code.length !== 6 || busy}
+            onClick={() => disableMutation.mutate(code)}
+          >
+            Turn off
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-factor authentication</DialogTitle>
+          <DialogDescription>Protect the dashboard with a second step at sign-in.</DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { signIn } from "next-auth/react"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { authAPI } from "@/lib/auth-api"
+import { TRUSTED_DEVICE_DAYS, type TwoFactorChallenge } from "@/lib/two-factor"
+
+interface TwoFactorStepProps {
+  email: string
+  challenge: TwoFactorChallenge
+  onVerified: () => void
+  onBack: () => void
+}
+
+export function TwoFactorStep({ email, challenge, onVerified, onBack }: TwoFactorStepProps) {
+  const [code, setCode] = useState("")
+  const [useRecovery, setUseRecovery] = useState(false)
+  const [rememberDevice, setRememberDevice] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isResending, setIsResending] = useState(false)
+
+  const ready = useRecovery ? code.trim().length > 0 : code.length === 6
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!ready) return
+    setIsLoading(true)
+
+    try {
+      const result = await signIn("credentials", {
+        email,
+        otp: code.trim(),
+        challengeToken: challenge.challengeToken,
+        recovery: String(useRecovery),
+        rememberDevice: String(rememberDevice),
+        redirect: false,
+      })
+
+      if (result?.error) {
+        toast.error(result.error)
+        setCode("")
+      } else if (result?.ok) {
+        onVerified()
+      }
+    } catch {
+      toast.error("An error occurred during login")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleResend = async () => {
+    setIsResending(true)
+    try {
+      await authAPI.resendLoginOTP(challenge.challengeToken)
+      toast.success("We sent you a new code")
+    } catch (error: any) {
+      toast.error(error?.response?.data?.message || "Failed to resend the code")
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  const toggleRecovery = () => {
+    setUseRecovery((prev) => !prev)
+    setCode("")
+  }
+
+  return (
+    <div className="p-8 ">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Two-factor authentication</h2>
+      <p className="text-gray-400 mb-6 text-sm">
+        {useRecovery
+          ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+          : challenge.method === "totp"
+            ? "Enter the 6-digit code from your authenticator app."
+            : `We sent a 6-digit code to ${email}.`}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {useRecovery ? (
+          <Input
+            autoFocus
+            placeholder="xxxx-xxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="border-gray-200 focus:border-blue-500 focus:ring-blue-500 font-mono"
+          />
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP autoFocus maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <InputOTPSlot key={i} index={i} className="w-12 h-12 text-2xl" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={rememberDevice}
+            onChange={(e) => setRememberDevice(e.target.checked)}
+            className="w-4 h-4 border border-gray-300 rounded accent-blue-600"
+          />
+          <span className="text-sm text-gray-600">Don&apos;t ask again on this device for {TRUSTED_DEVICE_DAYS} days</span>
+        </label>
+
+        <Button
+          type="submit"
+          disabled={isLoading || !ready}
+          className="w-full bg-[#5B9FED] hover:bg-[#4A8FDD] text-white h-11 rounded-lg"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin text-white" /> : "Verify"}
+        </Button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button type="button" onClick={onBack} className="text-gray-600 hover:text-gray-900">
+            Back
+          </button>
+          <div className="flex gap-4">
+            {challenge.method === "email" && !useRecovery && (
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isResending}
+                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Resend code
+              </button>
+            )}
+            <button type="button" onClick={toggleRecovery} className="text-gray-600 hover:text-gray-900">
+              {useRecovery ? "Use a verification code" : "Use a recovery code"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  )
+}
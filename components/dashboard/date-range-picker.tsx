@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { parseISO } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { CalendarDays, ChevronDown } from "lucide-react"
+
+import {
+  DATE_RANGE_PRESETS,
+  dateRangeLabel,
+  isSameDateRange,
+  resolveDateRange,
+  toDay,
+  type DateRangeValue,
+} from "@/lib/date-range"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface DateRangePickerProps {
+  value: DateRangeValue
+  onChange: (value: DateRangeValue) => void
+  className?: string
+}
+
+export function DateRangePicker({ value, onChange, className }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<DateRange | undefined>()
+
+  // Start the calendar on whatever the current value covers
+  useEffect(() => {
+    if (!open) return
+    const range = resolveDateRange(value)
+    setDraft(range ? { from: range.from, to: range.to } : undefined)
+  }, [open, value])
+
+  const choose = (next: DateRangeValue) => {
+    onChange(next)
+    setOpen(false)
+  }
+
+  const applyCustom = () => {
+    if (!draft?.from) return
+    choose({ from: toDay(draft.from), to: toDay(draft.to ?? draft.from) })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          className={cn("gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50", className)}
+        >
+          <CalendarDays className="w-4 h-4" />
+          {dateRangeLabel(value)}
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-auto p-0">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex flex-col gap-1 border-b sm:border-b-0 sm:border-r border-gray-200 p-2 sm:w-40">
+            {DATE_RANGE_PRESETS.map((preset) => {
+              const active = isSameDateRange(value, { preset: preset.value })
+              return (
+                <Button
+                  key={preset.value}
+                  variant="ghost"
+                  size="sm"
+                  className={cn("justify-start", active && "bg-[#DCEBFB] text-[#2D6CB8] hover:bg-[#C8E1FA]")}
+                  onClick={() => choose({ preset: preset.value })}
+                >
+                  {preset.label}
+                </Button>
+              )
+            })}
+          </div>
+
+          <div className="p-2">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              selected={draft}
+              onSelect={setDraft}
+              defaultMonth={draft?.from ?? ("from" in value ? parseISO(value.from) : undefined)}
+              disabled={{ after: new Date() }}
+            />
+            <div className="flex items-center justify-end gap-2 border-t border-gray-200 px-2 pt-2">
+              <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+                disabled={!draft?.from}
+                onClick={applyCustom}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { Menu } from "lucide-react";
+import { KeyRound, Lock, Menu, ShieldCheck, Volume2, VolumeX } from "lucide-react";
+import Link from "next/link";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useState } from "react";
 import {
@@ -9,12 +10,22 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useMutation } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { authAPI } from "@/lib/auth-api";
 import { toast } from "sonner";
+import { useRealtime } from "@/components/realtime/realtime-provider";
+import { NotificationBell } from "@/components/notifications/notification-bell";
+import { TwoFactorDialog } from "@/components/auth/two-factor-dialog";
 
 interface DashboardHeaderProps {
   user: any;
@@ -23,17 +34,25 @@ interface DashboardHeaderProps {
 
 export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [showTwoFactorDialog, setShowTwoFactorDialog] = useState(false);
+  const { soundEnabled, setSoundEnabled } = useRealtime();
   const [passwords, setPasswords] = useState({
     currentPassword: "",
     newPassword: "",
     confirmPassword: "",
   });
+  const [signOutOtherSessions, setSignOutOtherSessions] = useState(true);
+  const queryClient = useQueryClient();
 
   const changePasswordMutation = useMutation({
-    mutationFn: (data: { currentPassword: string; newPassword: string }) =>
-      authAPI.changePassword(data, user?.accessToken),
+    mutationFn: (data: {
+      currentPassword: string;
+      newPassword: string;
+      signOutOtherSessions: boolean;
+    }) => authAPI.changePassword(data),
     onSuccess: () => {
       toast.success("Password changed successfully");
+      queryClient.invalidateQueries({ queryKey: ["auth", "sessions"] });
       setShowPasswordDialog(false);
       setPasswords({
         currentPassword: "",
@@ -54,6 +73,7 @@ export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
     changePasswordMutation.mutate({
       currentPassword: passwords.currentPassword,
       newPassword: passwords.newPassword,
+      signOutOtherSessions,
     });
   };
 
@@ -75,6 +95,20 @@ export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
           </div>
 
           <div className="flex items-center gap-4">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              title={soundEnabled ? "Mute new-order sound" : "Play a sound for new orders"}
+              onClick={() => setSoundEnabled(!soundEnabled)}
+            >
+              {soundEnabled ? (
+                <Volume2 className="w-5 h-5 text-gray-600" />
+              ) : (
+                <VolumeX className="w-5 h-5 text-gray-400" />
+              )}
+            </Button>
+            <NotificationBell />
             <div className="flex items-center gap-3 pl-4 border-l border-gray-200">
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">
@@ -82,13 +116,33 @@ export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
                 </p>
                 <p className="text-xs text-gray-500">{user?.email}</p>
               </div>
-              <button onClick={() => setShowPasswordDialog(true)}>
-                <Avatar className="h-10 w-10 cursor-pointer hover:opacity-80 transition-opacity">
-                  <AvatarFallback className="bg-[#5B9FED] text-white text-sm font-medium">
-                    {user?.name?.charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button aria-label="Account menu">
+                    <Avatar className="h-10 w-10 cursor-pointer hover:opacity-80 transition-opacity">
+                      <AvatarFallback className="bg-[#5B9FED] text-white text-sm font-medium">
+                        {user?.name?.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setShowPasswordDialog(true)}>
+                    <KeyRound className="w-4 h-4" />
+                    Change password
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowTwoFactorDialog(true)}>
+                    <ShieldCheck className="w-4 h-4" />
+                    Two-factor authentication
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/dashboard/security">
+                      <Lock className="w-4 h-4" />
+                      Sessions &amp; security
+                    </Link>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -139,6 +193,18 @@ export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
                 }
               />
             </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="signOutOthers"
+                checked={signOutOtherSessions}
+                onCheckedChange={(checked) =>
+                  setSignOutOtherSessions(checked === true)
+                }
+              />
+              <Label htmlFor="signOutOthers" className="font-normal">
+                Sign out of all other devices
+              </Label>
+            </div>
             <Button
               onClick={handleChangePassword}
               disabled={changePasswordMutation.isPending}
@@ -151,6 +217,12 @@ export function DashboardHeader({ user, onOpenSidebar }: DashboardHeaderProps) {
           </div>
         </DialogContent>
       </Dialog>
+
+      <TwoFactorDialog
+        open={showTwoFactorDialog}
+        onOpenChange={setShowTwoFactorDialog}
+        email={user?.email ?? ""}
+      />
     </>
   );
 }
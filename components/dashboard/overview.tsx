@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo } from "react"
 import { useQuery } from "@tanstack/react-query"
 import { dashbordOverviewAPI } from "@/lib/dashbord-overview"
 import {
@@ -17,48 +17,58 @@ import {
 } from "recharts"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Card } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
+import { DateRangePicker } from "@/components/dashboard/date-range-picker"
+import { StockAlerts } from "@/components/dashboard/stock-alerts"
+import { useDateRange } from "@/hooks/use-date-range"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { toRangeParams } from "@/lib/date-range"
 import { ShoppingCart, Coffee, TrendingUp, Wallet } from "lucide-react"
 
-const rangeOptions = [
-  { value: "day", label: "Day" },
-  { value: "week", label: "Week" },
-  { value: "month", label: "Month" },
-  { value: "year", label: "Year" },
-] as const
-
 export function DashboardOverview() {
-  const [timeRange, setTimeRange] = useState<"day" | "week" | "month" | "year" | "all">("week")
+  const [dateRange, setDateRange] = useDateRange({ preset: "thisWeek" })
+  const rangeParams = useMemo(() => toRangeParams(dateRange), [dateRange])
+  const { formatMoney, formatCompactMoney, formatNumber } = useCurrency()
 
   const { data, isLoading } = useQuery({
-    queryKey: ["dashboard", "overview", timeRange],
-    queryFn: () => dashbordOverviewAPI.getDashboardOverview(timeRange),
+    queryKey: ["dashboard", "overview", rangeParams],
+    queryFn: () => dashbordOverviewAPI.getDashboardOverview(rangeParams),
   })
 
   const statsData = data?.stats
   const performance = data?.charts?.performance ?? []
   const recentOrders = data?.recentOrders ?? []
 
-  const stats = [
+  const totalRevenue = Number(statsData?.totalRevenue ?? 0)
+  const totalRefunds = Number(statsData?.totalRefunds ?? 0)
+
+  // revenue and refunds are money; the orders series on the same chart is a count
+  const formatSeries = (value: unknown, dataKey: unknown) =>
+    dataKey === "orders" ? formatNumber(value as number) : formatMoney(value as number)
+
+  const stats: { icon: typeof Wallet; label: string; value: string; hint?: string }[] = [
     {
       icon: ShoppingCart,
       label: "Total Customers",
-      value: statsData?.totalCustomers ?? 0,
+      value: formatNumber(statsData?.totalCustomers),
     },
     {
       icon: Coffee,
       label: "Total Delivered",
-      value: statsData?.totalDelivered ?? 0,
+      value: formatNumber(statsData?.totalDelivered),
     },
     {
       icon: Wallet,
       label: "Total Revenue",
-      value: `$${Number(statsData?.totalRevenue ?? 0).toFixed(2)}`,
+      value: formatMoney(totalRevenue),
+      hint:
+        totalRefunds > 0
+          ? `-${formatMoney(totalRefunds)} refunds · net ${formatMoney(totalRevenue - totalRefunds)}`
+          : undefined,
     },
     {
       icon: TrendingUp,
       label: "Total Orders",
-      value: statsData?.totalOrders ?? 0,
+      value: formatNumber(statsData?.totalOrders),
     },
   ]
 
@@ -74,6 +84,7 @@ export function DashboardOverview() {
                 <div>
                   <p className="text-sm text-gray-600 mb-1">{stat.label}</p>
                   <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                  {stat.hint && <p className="text-xs text-red-600 mt-1">{stat.hint}</p>}
                 </div>
                 <Icon className="w-10 h-10 text-blue-100" />
               </div>
@@ -82,22 +93,10 @@ export function DashboardOverview() {
         })}
       </div>
 
-      <div className="flex flex-wrap gap-2">
-        {rangeOptions.map((opt) => (
-          <Button
-            key={opt.value}
-            variant={timeRange === opt.value ? "default" : "outline"}
-            className={
-              timeRange === opt.value
-                ? "bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-                : "border-gray-200 text-gray-700"
-            }
-            size="sm"
-            onClick={() => setTimeRange(opt.value)}
-          >
-            {opt.label}
-          </Button>
-        ))}
+      <StockAlerts />
+
+      <div className="flex justify-end">
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
       </div>
 
       {/* Charts */}
@@ -111,9 +110,9 @@ export function DashboardOverview() {
               <BarChart data={performance}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
-                <YAxis allowDecimals={false} />
-                <Tooltip />
-                <Bar dataKey="orders" fill="#3b82f6" />
+                <YAxis allowDecimals={false} tickFormatter={formatNumber} />
+                <Tooltip formatter={(value) => formatNumber(value as number)} />
+                <Bar dataKey="orders" fill="#3b82f6" name="Orders" />
               </BarChart>
             </ResponsiveContainer>
           )}
@@ -128,11 +127,15 @@ export function DashboardOverview() {
               <LineChart data={performance}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
-                <YAxis />
-                <Tooltip />
+                <YAxis yAxisId="money" tickFormatter={formatCompactMoney} width={70} />
+                <YAxis yAxisId="orders" orientation="right" allowDecimals={false} tickFormatter={formatNumber} />
+                <Tooltip formatter={(value, _name, item) => formatSeries(value, item.dataKey)} />
                 <Legend />
-                <Line type="monotone" dataKey="revenue" stroke="#3b82f6" name="Revenue" />
-                <Line type="monotone" dataKey="orders" stroke="#f59e0b" name="Orders" />
+                <Line yAxisId="money" type="monotone" dataKey="revenue" stroke="#3b82f6" name="Revenue" />
+                {totalRefunds > 0 && (
+                  <Line yAxisId="money" type="monotone" dataKey="refunds" stroke="#ef4444" name="Refunds" />
+                )}
+                <Line yAxisId="orders" type="monotone" dataKey="orders" stroke="#f59e0b" name="Orders" />
               </LineChart>
             </ResponsiveContainer>
           )}
@@ -165,7 +168,7 @@ export function DashboardOverview() {
                   <tr key={o.id} className="border-b border-gray-200 hover:bg-gray-50">
                     <td className="px-4 py-3 font-medium">{o.orderId}</td>
                     <td className="px-4 py-3">{o.customer ?? "Unknown"}</td>
-                    <td className="px-4 py-3">${Number(o.amount ?? 0).toFixed(2)}</td>
+                    <td className="px-4 py-3">{formatMoney(o.amount)}</td>
                     <td className="px-4 py-3">
                       <span
                         className={`px-3 py-1 rounded-full text-xs font-semibold ${
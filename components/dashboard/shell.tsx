@@ -4,6 +4,7 @@ import { useState } from "react";
 import type { ReactNode } from "react";
 import { DashboardSidebar } from "./sidebar";
 import { DashboardHeader } from "./header";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
 
 interface DashboardShellProps {
   user: any;
@@ -12,9 +13,10 @@ interface DashboardShellProps {
 
 export function DashboardShell({ user, children }: DashboardShellProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  useIdleTimeout();
 
   return (
-    <div className="flex min-h-screen bg-gray-50">
+    <div className="flex min-h-screen bg-gray-50 print:bg-white">
       {/* Mobile sidebar overlay */}
       <div
         className={`fixed inset-0 z-40 lg:hidden ${
@@ -36,16 +38,20 @@ export function DashboardShell({ user, children }: DashboardShellProps) {
       </div>
 
       {/* Desktop sidebar */}
-      <div className="hidden lg:block">
+      <div className="hidden lg:block print:hidden">
         <DashboardSidebar user={user} className="h-screen" />
       </div>
 
-      <div className="flex-1 flex flex-col min-h-screen overflow-hidden">
-        <DashboardHeader
-          user={user}
-          onOpenSidebar={() => setSidebarOpen(true)}
-        />
-        <main className="flex-1 overflow-auto p-4 sm:p-6">{children}</main>
+      <div className="flex-1 flex flex-col min-h-screen overflow-hidden print:overflow-visible">
+        <div className="print:hidden">
+          <DashboardHeader
+            user={user}
+            onOpenSidebar={() => setSidebarOpen(true)}
+          />
+        </div>
+        <main className="flex-1 overflow-auto p-4 sm:p-6 print:overflow-visible print:p-0">
+          {children}
+        </main>
       </div>
     </div>
   );
@@ -8,7 +8,12 @@ import {
   Users,
   Package,
   Tags,
+  Wheat,
   MessageSquare,
+  ClipboardList,
+  History,
+  TrendingUp,
+  Settings,
   LogOut,
 } from "lucide-react";
 import { signOut } from "next-auth/react";
@@ -16,6 +21,8 @@ import { Button } from "@/components/ui/button";
 import Image from "next/image";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
+import { useRealtime } from "@/components/realtime/realtime-provider";
+import { canAccessRoute } from "@/lib/permissions";
 
 import {
   AlertDialog,
@@ -33,11 +40,16 @@ const menuItems = [
   { icon: LayoutDashboard, label: "Overview", href: "/dashboard" },
   { icon: ShoppingCart, label: "Order Lists", href: "/dashboard/orders" },
   { icon: ShoppingCart, label: "Paid Orders", href: "/dashboard/paid-orders" },
+  { icon: ClipboardList, label: "Production", href: "/dashboard/production" },
   { icon: Users, label: "Customer Lists", href: "/dashboard/customers" },
   { icon: MessageSquare, label: "Messages", href: "/dashboard/messages" },
   { icon: Tags, label: "Category Lists", href: "/dashboard/categories" },
+  { icon: Wheat, label: "Ingredients", href: "/dashboard/ingredients" },
   { icon: Package, label: "Product Lists", href: "/dashboard/products" },
   { icon: Package, label: "Special Items", href: "/dashboard/special-items" },
+  { icon: TrendingUp, label: "Margins", href: "/dashboard/margins" },
+  { icon: History, label: "Audit Log", href: "/dashboard/audit-log" },
+  { icon: Settings, label: "Settings", href: "/dashboard/settings" },
 ];
 
 interface DashboardSidebarProps {
@@ -53,6 +65,7 @@ export function DashboardSidebar({
 }: DashboardSidebarProps) {
   const pathname = usePathname();
   const [logoutOpen, setLogoutOpen] = useState(false);
+  const { unreadOrders } = useRealtime();
 
   const handleConfirmLogout = async () => {
     // optional: close modal immediately for snappier UI
@@ -78,31 +91,41 @@ export function DashboardSidebar({
       </div>
 
       <nav className="space-y-2 px-4 flex-1 py-6">
-        {menuItems.map((item) => {
-          const Icon = item.icon;
-          // Fix: your original startsWith check was incorrect.
-          // This will highlight nested routes properly: /dashboard/orders/123 etc.
-          const isActive =
-            item.href === "/dashboard"
-              ? pathname === "/dashboard"
-              : pathname === item.href || pathname.startsWith(item.href + "/");
+        {menuItems
+          .filter((item) => canAccessRoute(user?.role, item.href))
+          .map((item) => {
+            const Icon = item.icon;
+            // Fix: your original startsWith check was incorrect.
+            // This will highlight nested routes properly: /dashboard/orders/123 etc.
+            const isActive =
+              item.href === "/dashboard"
+                ? pathname === "/dashboard"
+                : pathname === item.href || pathname.startsWith(item.href + "/");
 
-          return (
-            <Link
-              key={item.href}
-              href={item.href}
-              onClick={onNavigate}
-              className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${
-                isActive
-                  ? "bg-[#5B9FED] text-white font-medium"
-                  : "text-gray-700 hover:bg-gray-50"
-              }`}
-            >
-              <Icon className="w-5 h-5" />
-              <span className="text-sm">{item.label}</span>
-            </Link>
-          );
-        })}
+            return (
+              <Link
+                key={item.href}
+                href={item.href}
+                onClick={onNavigate}
+                className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${
+                  isActive
+                    ? "bg-[#5B9FED] text-white font-medium"
+                    : "text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                <Icon className="w-5 h-5" />
+                <span className="text-sm">{item.label}</span>
+                {item.href === "/dashboard/orders" && unreadOrders > 0 && (
+                  <span
+                    className="ml-auto rounded-full bg-red-500 px-2 py-0.5 text-xs font-semibold text-white"
+                    aria-label={`${unreadOrders} new orders`}
+                  >
+                    {unreadOrders > 99 ? "99+" : unreadOrders}
+                  </span>
+                )}
+              </Link>
+            );
+          })}
       </nav>
 
       <div className="p-4 border-t border-gray-200">
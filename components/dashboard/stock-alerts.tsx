@@ -0,0 +1,80 @@
+"use client"
+
+import { useMemo } from "react"
+import Link from "next/link"
+import { useQuery } from "@tanstack/react-query"
+import { AlertTriangle } from "lucide-react"
+
+import { ordersAPI } from "@/lib/orders-api"
+import { resolveDateRange } from "@/lib/date-range"
+import { CONSUMPTION_WINDOW_DAYS, productConsumption, stockWarnings, type StockWarning } from "@/lib/inventory"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useProductCatalogue } from "@/hooks/use-product-catalogue"
+
+const KIND_LABELS: Record<StockWarning["kind"], string> = {
+  out: "Out of stock",
+  capacity: "Near capacity",
+  low: "Low stock",
+}
+
+const KIND_CLASSES: Record<StockWarning["kind"], string> = {
+  out: "bg-red-100 text-red-700",
+  capacity: "bg-orange-100 text-orange-700",
+  low: "bg-yellow-100 text-yellow-800",
+}
+
+/** Products that need baking or restocking, based on the last week's orders */
+export function StockAlerts() {
+  const { products, isLoading: loadingProducts } = useProductCatalogue()
+
+  const { data: orders = [], isLoading: loadingOrders } = useQuery({
+    queryKey: ["orders", "consumption", CONSUMPTION_WINDOW_DAYS],
+    queryFn: () => {
+      const range = resolveDateRange({ preset: "last7" })
+      return ordersAPI.getAllOrders({ from: range?.from.toISOString(), to: range?.to.toISOString() })
+    },
+  })
+
+  const warnings = useMemo(
+    () => stockWarnings(products, productConsumption(orders)),
+    [products, orders],
+  )
+
+  if (loadingProducts || loadingOrders) {
+    return (
+      <Card className="p-6">
+        <Skeleton className="h-6 w-40 mb-4" />
+        <Skeleton className="h-10" />
+      </Card>
+    )
+  }
+
+  if (warnings.length === 0) return null
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-orange-500" />
+        Stock warnings
+      </h3>
+      <ul className="divide-y divide-gray-100">
+        {warnings.map((warning) => (
+          <li key={`${warning.kind}-${warning.product._id}`} className="flex items-center gap-3 py-2">
+            <Badge variant="secondary" className={KIND_CLASSES[warning.kind]}>
+              {KIND_LABELS[warning.kind]}
+            </Badge>
+            <Link
+              href={`/dashboard/products?product=${warning.product._id}`}
+              className="font-medium text-[#2D6CB8] hover:underline"
+            >
+              {warning.product.name}
+            </Link>
+            <span className="text-sm text-gray-600">{warning.message}</span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  )
+}
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge"
+import { ALLERGEN_BADGE_CLASSES, ALLERGEN_LABELS } from "@/lib/ingredients"
+import type { Allergen } from "@/lib/types"
+
+export function AllergenBadges({ allergens, emptyLabel = "None" }: { allergens: Allergen[]; emptyLabel?: string }) {
+  if (allergens.length === 0) return emptyLabel ? <span className="text-sm text-gray-500">{emptyLabel}</span> : null
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {allergens.map((allergen) => (
+        <Badge key={allergen} variant="secondary" className={ALLERGEN_BADGE_CLASSES[allergen]}>
+          {ALLERGEN_LABELS[allergen]}
+        </Badge>
+      ))}
+    </div>
+  )
+}
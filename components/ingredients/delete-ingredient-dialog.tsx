@@ -0,0 +1,66 @@
+"use client"
+
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { ingredientsAPI } from "@/lib/ingredients-api"
+import type { Ingredient } from "@/lib/types"
+
+interface DeleteIngredientDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  ingredient: Ingredient | null
+  onSuccess?: () => void
+}
+
+export function DeleteIngredientDialog({ open, onOpenChange, ingredient, onSuccess }: DeleteIngredientDialogProps) {
+  const queryClient = useQueryClient()
+  const [loading, setLoading] = useState(false)
+
+  const handleDelete = async () => {
+    if (!ingredient) return
+
+    setLoading(true)
+    try {
+      await ingredientsAPI.deleteIngredient(ingredient._id)
+      toast.success("Ingredient deleted successfully")
+      void queryClient.invalidateQueries({ queryKey: ["products"] })
+      onSuccess?.()
+      onOpenChange(false)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete ingredient")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Ingredient</AlertDialogTitle>
+          <AlertDialogDescription>
+            Are you sure you want to delete "{ingredient?.name}"? Products that use it will no longer list it or its allergens. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={loading}>
+            {loading ? "Deleting..." : "Delete"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
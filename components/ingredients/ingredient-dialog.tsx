@@ -0,0 +1,251 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EntityHistory } from "@/components/audit/entity-history"
+import { ingredientsAPI } from "@/lib/ingredients-api"
+import { ALLERGENS, ALLERGEN_LABELS } from "@/lib/ingredients"
+import { INGREDIENT_UNITS, UNIT_LABELS } from "@/lib/costing"
+import type { Allergen, Ingredient, IngredientUnit } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { usePermissions } from "@/hooks/use-permissions"
+
+interface IngredientDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  ingredient?: Ingredient | null
+  mode: "add" | "edit"
+  /** Prefills the name when adding from the product picker */
+  defaultName?: string
+  onSuccess?: (ingredient?: Ingredient) => void
+}
+
+export function IngredientDialog({ open, onOpenChange, ingredient, mode, defaultName, onSuccess }: IngredientDialogProps) {
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const { symbol } = useCurrency()
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState("")
+  const [allergens, setAllergens] = useState<Allergen[]>([])
+  const [unit, setUnit] = useState<IngredientUnit>("g")
+  // blank means not costed yet
+  const [unitCost, setUnitCost] = useState("")
+  const [image, setImage] = useState<File | null>(null)
+  const [imagePreview, setImagePreview] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    if (ingredient && mode === "edit") {
+      setName(ingredient.name)
+      setAllergens(ingredient.allergens ?? [])
+      setUnit(ingredient.unit ?? "g")
+      setUnitCost(typeof ingredient.unitCost === "number" ? String(ingredient.unitCost) : "")
+      setImage(null)
+      setImagePreview(ingredient.image || "")
+    } else {
+      setName(defaultName ?? "")
+      setAllergens([])
+      setUnit("g")
+      setUnitCost("")
+      setImage(null)
+      setImagePreview("")
+    }
+  }, [open, ingredient, mode, defaultName])
+
+  const toggleAllergen = (allergen: Allergen, checked: boolean) =>
+    setAllergens((prev) =>
+      checked ? ALLERGENS.filter((a) => a === allergen || prev.includes(a)) : prev.filter((a) => a !== allergen),
+    )
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setImage(file)
+    const reader = new FileReader()
+    reader.onloadend = () => setImagePreview(reader.result as string)
+    reader.readAsDataURL(file)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (!name.trim()) {
+      toast.error("Please enter an ingredient name")
+      return
+    }
+    if (unitCost !== "" && !(Number(unitCost) >= 0)) {
+      toast.error("Cost must be a number of 0 or more")
+      return
+    }
+
+    setLoading(true)
+    try {
+      const formData = new FormData()
+      formData.append("name", name.trim())
+      formData.append("allergens", JSON.stringify(allergens))
+      formData.append("unit", unit)
+      formData.append("unitCost", unitCost)
+      // an edit that removed the photo sends an empty value to clear it
+      if (image) formData.append("image", image)
+      else if (mode === "edit" && !imagePreview) formData.append("image", "")
+
+      let saved: Ingredient | undefined
+      if (mode === "add") {
+        saved = await ingredientsAPI.createIngredient(formData)
+        toast.success("Ingredient added successfully")
+      } else {
+        await ingredientsAPI.updateIngredient(ingredient!._id, formData)
+        toast.success("Ingredient updated successfully")
+      }
+
+      void queryClient.invalidateQueries({ queryKey: ["ingredients"] })
+      // products show the ingredient's name, photo, allergens and cost through the reference
+      if (mode === "edit") void queryClient.invalidateQueries({ queryKey: ["products"] })
+
+      onSuccess?.(saved)
+      onOpenChange(false)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to save ingredient")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">{mode === "add" ? "Add Ingredient" : "Edit Ingredient"}</DialogTitle>
+          {mode === "edit" && (
+            <p className="text-sm text-gray-500">Changes apply to every product that uses this ingredient.</p>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="ingredient-name">Ingredient Name</Label>
+            <Input
+              id="ingredient-name"
+              placeholder="e.g. Wheat flour"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Allergens</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {ALLERGENS.map((allergen) => (
+                <label key={allergen} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={allergens.includes(allergen)}
+                    onCheckedChange={(checked) => toggleAllergen(allergen, checked === true)}
+                  />
+                  {ALLERGEN_LABELS[allergen]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Measured in</Label>
+              <Select value={unit} onValueChange={(value) => setUnit(value as IngredientUnit)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INGREDIENT_UNITS.map((u) => (
+                    <SelectItem key={u} value={u}>
+                      {u === "each" ? "Each (pieces)" : `${u} (${UNIT_LABELS[u]})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ingredient-cost">
+                Cost per {unit === "each" ? "piece" : unit} ({symbol})
+              </Label>
+              <Input
+                id="ingredient-cost"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Not costed"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photo</Label>
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+              {imagePreview ? (
+                <div className="space-y-2">
+                  <img src={imagePreview} alt="Ingredient preview" className="mx-auto max-h-32 rounded-lg object-cover" />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setImage(null)
+                      setImagePreview("")
+                    }}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                    <Upload className="w-6 h-6 text-blue-600" />
+                  </div>
+                  <Button type="button" size="sm" className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white" asChild>
+                    <label htmlFor="ingredient-image" className="cursor-pointer">
+                      Add Image
+                      <input
+                        id="ingredient-image"
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={handleImageChange}
+                      />
+                    </label>
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white">
+              {loading ? "Saving..." : mode === "add" ? "Save Ingredient" : "Update Ingredient"}
+            </Button>
+          </div>
+        </form>
+
+        {ingredient && mode === "edit" && can("audit:view") && (
+          <div className="border-t border-gray-200 pt-4">
+            <EntityHistory entityType="ingredient" entityId={ingredient._id} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+import { AlertTriangle, Bell, CreditCard, MessageSquare, ShoppingCart } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import type { DashboardNotification, NotificationKind } from "@/lib/notifications"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useNotifications } from "./notifications-provider"
+
+const iconFor: Record<NotificationKind, typeof Bell> = {
+  order: ShoppingCart,
+  payment: CreditCard,
+  message: MessageSquare,
+  stock: AlertTriangle,
+}
+
+const toneFor: Record<NotificationKind, string> = {
+  order: "bg-[#DCEBFB] text-[#5B9FED]",
+  payment: "bg-red-100 text-red-600",
+  message: "bg-green-100 text-green-700",
+  stock: "bg-orange-100 text-orange-600",
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const { notifications, unreadCount, markRead, markAllRead, clear } = useNotifications()
+
+  const openNotification = (notification: DashboardNotification) => {
+    markRead(notification.id)
+    setOpen(false)
+    router.push(notification.href)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-4 text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <p className="font-semibold text-gray-900">Notifications</p>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" disabled={unreadCount === 0} onClick={markAllRead}>
+              Mark all read
+            </Button>
+            <Button variant="ghost" size="sm" disabled={notifications.length === 0} onClick={clear}>
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="py-10 text-center text-sm text-gray-500">You're all caught up.</p>
+          ) : (
+            notifications.map((n) => {
+              const Icon = iconFor[n.kind]
+              return (
+                <button
+                  key={n.id}
+                  type="button"
+                  onClick={() => openNotification(n)}
+                  className={cn(
+                    "flex w-full items-start gap-3 border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50",
+                    !n.read && "bg-blue-50/50",
+                  )}
+                >
+                  <span className={cn("mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-full", toneFor[n.kind])}>
+                    <Icon className="w-4 h-4" />
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className={cn("block text-sm text-gray-900", !n.read && "font-semibold")}>{n.title}</span>
+                    {n.description && <span className="block truncate text-xs text-gray-500">{n.description}</span>}
+                    <span className="block text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(n.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                  {!n.read && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-[#5B9FED]" aria-label="Unread" />}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
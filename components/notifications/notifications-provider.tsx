@@ -0,0 +1,179 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react"
+import { useSession } from "next-auth/react"
+
+import {
+  addNotification,
+  loadNotifications,
+  NOTIFICATION_PREFERENCES,
+  saveNotifications,
+  type DashboardNotification,
+} from "@/lib/notifications"
+import { formatMoney } from "@/lib/format"
+import type { Message } from "@/lib/chat-api"
+import type { Order } from "@/lib/types"
+import {
+  CHAT_MESSAGE,
+  LOW_STOCK,
+  ORDER_CREATED,
+  ORDER_UPDATED,
+  useRealtime,
+} from "@/components/realtime/realtime-provider"
+import { useStoreSettings } from "@/hooks/use-store-settings"
+
+type NotificationsContextValue = {
+  notifications: DashboardNotification[]
+  unreadCount: number
+  notify: (notification: Omit<DashboardNotification, "read" | "createdAt">) => void
+  markRead: (id: string) => void
+  markAllRead: () => void
+  clear: () => void
+}
+
+const NotificationsContext = createContext<NotificationsContextValue>({
+  notifications: [],
+  unreadCount: 0,
+  notify: () => {},
+  markRead: () => {},
+  markAllRead: () => {},
+  clear: () => {},
+})
+
+export function useNotifications() {
+  return useContext(NotificationsContext)
+}
+
+const shortId = (id: string) => `#${String(id).slice(-6)}`
+
+function firstOf<T>(payload: unknown): T | null {
+  const data = (payload as { data?: unknown })?.data ?? payload
+  const item = Array.isArray(data) ? data[0] : data
+  return item && typeof item === "object" ? (item as T) : null
+}
+
+const idOf = (ref: { _id: string } | string | undefined) => (typeof ref === "string" ? ref : ref?._id)
+
+/**
+ * Feed behind the header bell. Built from realtime events and kept in
+ * localStorage per signed-in user, so it survives reloads.
+ */
+export function NotificationsProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession()
+  const userId = session?.user?.id
+  const { socket } = useRealtime()
+  const { settings } = useStoreSettings()
+  // the owner travels with the list, so a switch of user never saves one user's feed under the other
+  const [feed, setFeed] = useState<{ userId?: string; items: DashboardNotification[] }>({ items: [] })
+  const notifications = feed.items
+
+  useEffect(() => {
+    setFeed({ userId, items: userId ? loadNotifications(userId) : [] })
+  }, [userId])
+
+  useEffect(() => {
+    if (feed.userId) saveNotifications(feed.userId, feed.items)
+  }, [feed])
+
+  const update = useCallback(
+    (fn: (prev: DashboardNotification[]) => DashboardNotification[]) =>
+      setFeed((prev) => ({ ...prev, items: fn(prev.items) })),
+    [],
+  )
+
+  const notify = useCallback<NotificationsContextValue["notify"]>(
+    (notification) => {
+      // kinds switched off in Settings → Notifications are dropped, not stored unread
+      if (!settings.notifications[NOTIFICATION_PREFERENCES[notification.kind]]) return
+      update((prev) => addNotification(prev, notification))
+    },
+    [update, settings.notifications],
+  )
+
+  const markRead = useCallback(
+    (id: string) => update((prev) => prev.map((n) => (n.id === id ? { ...n, read: true } : n))),
+    [update],
+  )
+
+  const markAllRead = useCallback(() => update((prev) => prev.map((n) => ({ ...n, read: true }))), [update])
+  const clear = useCallback(() => update(() => []), [update])
+
+  useEffect(() => {
+    if (!socket || !userId) return
+
+    // messages to staff are delivered to their own room
+    const joinOwnRoom = () => socket.emit("join", userId)
+    if (socket.connected) joinOwnRoom()
+    socket.on("connect", joinOwnRoom)
+
+    const onOrderCreated = (payload: unknown) => {
+      const order = firstOf<Order>(payload)
+      if (!order?._id) return
+      notify({
+        id: `order-${order._id}`,
+        kind: "order",
+        title: `New order ${shortId(order._id)}`,
+        description: `${order.user?.name ?? "Unknown"} · ${formatMoney(order.totalAmount, settings.pricing)}`,
+        href: `/dashboard/orders/${order._id}`,
+      })
+    }
+
+    const onOrderUpdated = (payload: unknown) => {
+      const order = firstOf<Order>(payload)
+      if (!order?._id || order.paymentStatus !== "Failed") return
+      notify({
+        id: `payment-failed-${order._id}`,
+        kind: "payment",
+        title: `Payment failed for ${shortId(order._id)}`,
+        description: order.user?.name,
+        href: `/dashboard/orders/${order._id}`,
+      })
+    }
+
+    const onMessage = (payload: unknown) => {
+      const message = firstOf<Message>(payload)
+      if (!message?._id || idOf(message.sender) === userId) return
+      const sender = typeof message.sender === "string" ? "a customer" : message.sender.name
+      notify({
+        id: `message-${message._id}`,
+        kind: "message",
+        title: `New message from ${sender}`,
+        description: message.text?.slice(0, 80) || (message.attachment ? "Sent an attachment" : undefined),
+        href: `/dashboard/messages?conversation=${message.conversation}`,
+      })
+    }
+
+    const onLowStock = (payload: unknown) => {
+      const product = firstOf<{ _id: string; name: string; stock?: number }>(payload)
+      if (!product?._id) return
+      notify({
+        id: `stock-${product._id}`,
+        kind: "stock",
+        title: `${product.name} is running low`,
+        description: typeof product.stock === "number" ? `${product.stock} left in stock` : undefined,
+        href: `/dashboard/products?product=${product._id}`,
+      })
+    }
+
+    socket.on(ORDER_CREATED, onOrderCreated)
+    socket.on(ORDER_UPDATED, onOrderUpdated)
+    socket.on(CHAT_MESSAGE, onMessage)
+    socket.on(LOW_STOCK, onLowStock)
+
+    return () => {
+      socket.off("connect", joinOwnRoom)
+      socket.off(ORDER_CREATED, onOrderCreated)
+      socket.off(ORDER_UPDATED, onOrderUpdated)
+      socket.off(CHAT_MESSAGE, onMessage)
+      socket.off(LOW_STOCK, onLowStock)
+    }
+  }, [socket, userId, notify, settings.pricing])
+
+  const unreadCount = notifications.filter((n) => !n.read).length
+
+  return (
+    <NotificationsContext.Provider value={{ notifications, unreadCount, notify, markRead, markAllRead, clear }}>
+      {children}
+    </NotificationsContext.Provider>
+  )
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { CheckCircle2, ChevronDown, Download, Loader2, Trash2, XCircle } from "lucide-react"
+
+import { ordersAPI } from "@/lib/orders-api"
+import { ORDER_STATUSES, PAYMENT_STATUSES, requiresConfirmation, type OrderStatusChange } from "@/lib/order-status"
+import { exportFileName, exportRows, orderLineColumns, orderLines } from "@/lib/export"
+import type { Order } from "@/lib/types"
+import { usePermissions } from "@/hooks/use-permissions"
+
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+type BulkAction = { kind: "update"; change: OrderStatusChange } | { kind: "delete" }
+
+type RowState = {
+  order: Order
+  state: "queued" | "running" | "done" | "failed"
+  error?: string
+}
+
+interface BulkOrderActionsProps {
+  orders: Order[]
+  onClear: () => void
+}
+
+function describe(action: BulkAction) {
+  if (action.kind === "delete") return "Delete"
+  return action.change.status
+    ? `Set status to ${action.change.status}`
+    : `Mark payment as ${action.change.paymentStatus}`
+}
+
+export function BulkOrderActions({ orders, onClear }: BulkOrderActionsProps) {
+  const queryClient = useQueryClient()
+  const { can } = usePermissions()
+  const [confirmAction, setConfirmAction] = useState<BulkAction | null>(null)
+  const [runAction, setRunAction] = useState<BulkAction | null>(null)
+  const [rows, setRows] = useState<RowState[]>([])
+  const [running, setRunning] = useState(false)
+
+  const setRow = (index: number, patch: Partial<RowState>) =>
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+
+  // Runs one request at a time so each row's progress is visible and the
+  // backend isn't hit with a burst of parallel writes.
+  const run = async (action: BulkAction) => {
+    const targets = [...orders]
+    setConfirmAction(null)
+    setRunAction(action)
+    setRows(targets.map((order) => ({ order, state: "queued" })))
+    setRunning(true)
+
+    let failed = 0
+    for (let i = 0; i < targets.length; i++) {
+      const order = targets[i]
+      setRow(i, { state: "running" })
+      try {
+        if (action.kind === "delete") {
+          await ordersAPI.deleteOrder(order._id)
+        } else {
+          await ordersAPI.updateOrderStatus(order._id, action.change, order)
+        }
+        setRow(i, { state: "done" })
+      } catch (error: any) {
+        failed++
+        setRow(i, {
+          state: "failed",
+          error: error?.response?.data?.message || error?.message || "Request failed",
+        })
+      }
+    }
+
+    setRunning(false)
+    queryClient.invalidateQueries({ queryKey: ["orders"] })
+
+    if (failed === 0) {
+      toast.success(`${describe(action)}: ${targets.length} order${targets.length === 1 ? "" : "s"} updated`)
+    } else {
+      toast.error(`${describe(action)}: ${failed} of ${targets.length} failed`)
+    }
+  }
+
+  const start = (action: BulkAction) => {
+    if (action.kind === "delete" || requiresConfirmation(action.change)) {
+      setConfirmAction(action)
+      return
+    }
+    void run(action)
+  }
+
+  const exportSelected = () =>
+    exportRows(orderLines(orders), orderLineColumns, exportFileName("orders-selected"), "csv", "Orders")
+
+  const closeProgress = () => {
+    if (running) return
+    const allDone = rows.every((r) => r.state === "done")
+    setRunAction(null)
+    setRows([])
+    if (allDone) onClear()
+  }
+
+  const finished = rows.filter((r) => r.state === "done" || r.state === "failed").length
+  const failures = rows.filter((r) => r.state === "failed")
+
+  return (
+    <>
+      {orders.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 rounded-lg border border-[#C8E1FA] bg-[#F3F8FE] px-4 py-2">
+          <p className="text-sm font-medium text-gray-900 mr-2">{orders.length} selected</p>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" className="gap-1" disabled={!can("orders:update")}>
+                Order Status
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {ORDER_STATUSES.map((s) => (
+                <DropdownMenuItem key={s} onClick={() => start({ kind: "update", change: { status: s } })}>
+                  {s}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" className="gap-1" disabled={!can("orders:update")}>
+                Payment Status
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {/* refunds need an amount and reason, so they go through the per-order dialog */}
+              {PAYMENT_STATUSES.filter((ps) => ps !== "Refunded").map((ps) => (
+                <DropdownMenuItem key={ps} onClick={() => start({ kind: "update", change: { paymentStatus: ps } })}>
+                  Mark as {ps}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button size="sm" variant="outline" className="gap-1" onClick={exportSelected}>
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 text-red-600 hover:text-red-700"
+            disabled={!can("orders:delete")}
+            title={can("orders:delete") ? undefined : "Your role can't do this"}
+            onClick={() => start({ kind: "delete" })}
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </Button>
+
+          <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {/* Confirm Dialog */}
+      <Dialog open={!!confirmAction} onOpenChange={() => setConfirmAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirmAction ? describe(confirmAction) : ""}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              This will apply to <span className="font-semibold">{orders.length}</span> order
+              {orders.length === 1 ? "" : "s"} and cannot be undone. Orders that cannot make this change are skipped
+              and listed as failures.
+            </p>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setConfirmAction(null)}>
+                No
+              </Button>
+              <Button
+                className="bg-red-600 hover:bg-red-700 text-white"
+                onClick={() => confirmAction && void run(confirmAction)}
+              >
+                Yes, Continue
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Progress Dialog */}
+      <Dialog open={!!runAction} onOpenChange={closeProgress}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{runAction ? describe(runAction) : ""}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Progress value={rows.length ? (finished / rows.length) * 100 : 0} />
+              <p className="text-xs text-gray-500">
+                {finished} of {rows.length} processed
+                {failures.length > 0 ? ` · ${failures.length} failed` : ""}
+              </p>
+            </div>
+
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+              {rows.map((row) => (
+                <li key={row.order._id} className="flex items-start gap-3 py-2">
+                  {row.state === "running" ? (
+                    <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-[#5B9FED]" />
+                  ) : row.state === "done" ? (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-600" />
+                  ) : row.state === "failed" ? (
+                    <XCircle className="w-4 h-4 mt-0.5 text-red-600" />
+                  ) : (
+                    <span className="w-4 h-4 mt-0.5 rounded-full border border-gray-300" />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium">
+                      #{String(row.order._id).slice(-6)}{" "}
+                      <span className="font-normal text-gray-500">{row.order.user?.name ?? "Unknown"}</span>
+                    </p>
+                    {row.error && <p className="text-xs text-red-600">{row.error}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={closeProgress} disabled={running}>
+                {running ? "Working..." : "Close"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { groupSelectedOptions } from "@/lib/product-options"
+import type { SelectedOption } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+
+/** The options a customer picked for one order line; renders nothing for plain products */
+export function LineItemOptions({ options, showPrices = true }: { options?: SelectedOption[]; showPrices?: boolean }) {
+  const { formatMoney } = useCurrency()
+  const groups = groupSelectedOptions(options)
+  if (groups.length === 0) return null
+
+  return (
+    <ul className="text-xs text-gray-600 space-y-0.5">
+      {groups.map(([group, chosen]) => (
+        <li key={group}>
+          <span className="font-medium text-gray-700">{group}:</span>{" "}
+          {chosen
+            .map((o) =>
+              showPrices && o.priceDelta
+                ? `${o.option} (${o.priceDelta > 0 ? "+" : "−"}${formatMoney(Math.abs(o.priceDelta))})`
+                : o.option,
+            )
+            .join(", ")}
+        </li>
+      ))}
+    </ul>
+  )
+}
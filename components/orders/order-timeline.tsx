@@ -0,0 +1,117 @@
+"use client"
+
+import { format } from "date-fns"
+import { CircleDot, CreditCard, PackageCheck, Undo2 } from "lucide-react"
+import type { Order, OrderStatusEvent } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+
+interface OrderTimelineProps {
+  order: Order
+}
+
+type TimelineEntry = {
+  key: string
+  kind: "placed" | "status" | "payment" | "refund"
+  label: string
+  at: string
+  by?: string
+  note?: string
+}
+
+/**
+ * Flattens `statusHistory` into one entry per change. A single history event
+ * may carry both a status and a paymentStatus, so it can yield two entries.
+ * Older orders without history fall back to createdAt / updatedAt. Refunds
+ * are merged in by date.
+ */
+function buildTimeline(order: Order, formatMoney: (amount: number) => string): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    { key: "placed", kind: "placed", label: "Order placed", at: order.createdAt },
+  ]
+
+  for (const refund of order.refunds ?? []) {
+    entries.push({
+      key: `refund-${refund._id}`,
+      kind: "refund",
+      label: `Refunded ${formatMoney(Number(refund.amount ?? 0))}: ${refund.reason}`,
+      at: refund.createdAt,
+      by: refund.refundedBy?.name,
+    })
+  }
+
+  const history: OrderStatusEvent[] = order.statusHistory ?? []
+
+  if (history.length === 0) {
+    if (order.updatedAt && order.updatedAt !== order.createdAt) {
+      entries.push({
+        key: "last-update",
+        kind: "status",
+        label: `Last updated: ${order.status} / payment ${order.paymentStatus}`,
+        at: order.updatedAt,
+      })
+    }
+    return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+  }
+
+  history.forEach((event, idx) => {
+    const key = event._id ?? String(idx)
+    const by = event.changedBy?.name
+
+    if (event.status) {
+      entries.push({
+        key: `${key}-status`,
+        kind: "status",
+        label: `Status changed to ${event.status}`,
+        at: event.changedAt,
+        by,
+        note: event.note,
+      })
+    }
+
+    if (event.paymentStatus) {
+      entries.push({
+        key: `${key}-payment`,
+        kind: "payment",
+        label: `Payment marked as ${event.paymentStatus}`,
+        at: event.changedAt,
+        by,
+        note: event.status ? undefined : event.note,
+      })
+    }
+  })
+
+  return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+}
+
+const iconFor = {
+  placed: PackageCheck,
+  status: CircleDot,
+  payment: CreditCard,
+  refund: Undo2,
+} as const
+
+export function OrderTimeline({ order }: OrderTimelineProps) {
+  const { formatMoney } = useCurrency()
+  const entries = buildTimeline(order, formatMoney)
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+      {entries.map((entry) => {
+        const Icon = iconFor[entry.kind]
+        return (
+          <li key={entry.key} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-[#DCEBFB] text-[#5B9FED]">
+              <Icon className="w-3.5 h-3.5" />
+            </span>
+            <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+            <p className="text-xs text-gray-500">
+              {entry.at ? format(new Date(entry.at), "dd MMM yyyy, HH:mm") : "--"}
+              {entry.by ? ` · by ${entry.by}` : ""}
+            </p>
+            {entry.note && <p className="mt-1 text-sm text-gray-600">{entry.note}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { ordersAPI } from "@/lib/orders-api"
+import { OrderTransitionError } from "@/lib/order-status"
+import {
+  REFUND_REASONS,
+  partialRefundAmount,
+  refundableAmount,
+  refundableQuantity,
+  type RefundRequest,
+} from "@/lib/refunds"
+import { lineUnitPrice } from "@/lib/product-options"
+import type { Order } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { LineItemOptions } from "@/components/orders/line-item-options"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface RefundDialogProps {
+  order: Order | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function RefundDialog({ order, onOpenChange }: RefundDialogProps) {
+  const queryClient = useQueryClient()
+  const { formatMoney } = useCurrency()
+  const [mode, setMode] = useState<"full" | "partial">("full")
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState("")
+  const [otherReason, setOtherReason] = useState("")
+  const [note, setNote] = useState("")
+
+  // fresh form for every order opened
+  useEffect(() => {
+    setMode("full")
+    setQuantities({})
+    setReason("")
+    setOtherReason("")
+    setNote("")
+  }, [order?._id])
+
+  const remaining = order ? refundableAmount(order) : 0
+  const amount = useMemo(() => {
+    if (!order) return 0
+    return mode === "full" ? remaining : partialRefundAmount(order, quantities)
+  }, [order, mode, remaining, quantities])
+
+  const finalReason = reason === "Other" ? otherReason.trim() : reason
+  const canSubmit = amount > 0 && Boolean(finalReason)
+
+  const refundMutation = useMutation({
+    mutationFn: (data: RefundRequest) => ordersAPI.refundOrder(order!, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] })
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "overview"] })
+      toast.success(`Refunded ${formatMoney(amount)}`)
+      onOpenChange(false)
+    },
+    onError: (error) =>
+      toast.error(error instanceof OrderTransitionError ? error.message : "Failed to refund order"),
+  })
+
+  const submit = () => {
+    if (!order || !canSubmit) return
+    const data: RefundRequest = { amount, reason: finalReason }
+    if (note.trim()) data.note = note.trim()
+    if (mode === "partial") {
+      data.items = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([lineId, quantity]) => ({ lineId, quantity }))
+    }
+    refundMutation.mutate(data)
+  }
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund Order #{String(order?._id ?? "").slice(-6)}</DialogTitle>
+        </DialogHeader>
+
+        {order && (
+          <div className="space-y-5">
+            <p className="text-sm text-gray-600">
+              Paid {formatMoney(order.totalAmount)} · refundable{" "}
+              <span className="font-semibold text-gray-900">{formatMoney(remaining)}</span>
+            </p>
+
+            <RadioGroup value={mode} onValueChange={(v) => setMode(v as "full" | "partial")} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="full" id="refund-full" />
+                <Label htmlFor="refund-full">Full refund</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="partial" id="refund-partial" />
+                <Label htmlFor="refund-partial">Partial, by item</Label>
+              </div>
+            </RadioGroup>
+
+            {mode === "partial" && (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {(order.items ?? []).map((line) => {
+                  const max = refundableQuantity(order, line)
+                  return (
+                    <div key={line._id} className="flex items-center gap-3 rounded-lg bg-gray-50 p-3">
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-900">
+                          {line.item?.name ?? "Deleted / unavailable product"}
+                        </p>
+                        <LineItemOptions options={line.selectedOptions} showPrices={false} />
+                        <p className="text-xs text-gray-500">
+                          {formatMoney(lineUnitPrice(line))} × {line.quantity}
+                          {max < line.quantity ? ` · ${line.quantity - max} already refunded` : ""}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={max}
+                        disabled={max === 0}
+                        aria-label={`Quantity of ${line.item?.name ?? "item"} to refund`}
+                        className="w-20"
+                        value={quantities[line._id] ?? 0}
+                        onChange={(e) => {
+                          const qty = Math.min(max, Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                          setQuantities((prev) => ({ ...prev, [line._id]: qty }))
+                        }}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFUND_REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {reason === "Other" && (
+                <Input
+                  placeholder="Describe the reason"
+                  value={otherReason}
+                  onChange={(e) => setOtherReason(e.target.value)}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-note">Internal note</Label>
+              <Textarea
+                id="refund-note"
+                placeholder="Only visible to staff"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+              <p className="text-sm text-gray-600">
+                Refund: <span className="text-lg font-bold text-gray-900">{formatMoney(amount)}</span>
+              </p>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  disabled={!canSubmit || refundMutation.isPending}
+                  onClick={submit}
+                >
+                  {refundMutation.isPending ? "Refunding..." : "Refund"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
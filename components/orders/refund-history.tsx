@@ -0,0 +1,62 @@
+"use client"
+
+import { format } from "date-fns"
+import { refundedAmount } from "@/lib/refunds"
+import type { Order } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+
+interface RefundHistoryProps {
+  order: Order
+}
+
+export function RefundHistory({ order }: RefundHistoryProps) {
+  const refunds = order.refunds ?? []
+  const { formatMoney } = useCurrency()
+  const lineName = (lineId: string) =>
+    order.items?.find((line) => line._id === lineId)?.item?.name ?? "Deleted / unavailable product"
+
+  if (refunds.length === 0) {
+    return <p className="py-4 text-center text-sm text-gray-500">No refunds issued.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {refunds.map((refund) => (
+        <div key={refund._id} className="rounded-lg border border-gray-200 p-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium text-gray-900">{refund.reason}</p>
+              <p className="text-xs text-gray-500">
+                {refund.createdAt ? format(new Date(refund.createdAt), "PPP p") : "--"}
+                {refund.refundedBy?.name ? ` · by ${refund.refundedBy.name}` : ""}
+                {refund.items?.length ? "" : " · full refund"}
+              </p>
+            </div>
+            <p className="font-semibold text-red-600">-{formatMoney(refund.amount)}</p>
+          </div>
+
+          {refund.items?.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm text-gray-600">
+              {refund.items.map((i) => (
+                <li key={i.lineId} className="flex justify-between">
+                  <span>
+                    {lineName(i.lineId)} × {i.quantity}
+                  </span>
+                  <span>{formatMoney(i.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {refund.note && (
+            <p className="mt-2 rounded bg-yellow-50 px-2 py-1 text-xs text-yellow-800">Internal note: {refund.note}</p>
+          )}
+        </div>
+      ))}
+
+      <p className="text-right text-sm text-gray-600">
+        Total refunded: <span className="font-semibold text-gray-900">{formatMoney(refundedAmount(order))}</span>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { format } from "date-fns"
+import { describeSelectedOptions } from "@/lib/product-options"
+import type { Order } from "@/lib/types"
+
+interface PackingSlipProps {
+  order: Order
+}
+
+export function PackingSlip({ order }: PackingSlipProps) {
+  return (
+    <div className="rounded-lg border border-gray-300 p-5 break-inside-avoid print:break-after-page print:rounded-none print:border-0">
+      <div className="flex items-start justify-between border-b border-gray-200 pb-3 mb-3">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500">Order</p>
+          <p className="text-xl font-bold">#{String(order._id).slice(-6)}</p>
+          <p className="text-xs text-gray-500">
+            {order.createdAt ? format(new Date(order.createdAt), "dd MMM yyyy, HH:mm") : "--"}
+          </p>
+        </div>
+        <span
+          className={`rounded-full px-3 py-1 text-sm font-bold ${
+            order.pickOrder ? "bg-amber-100 text-amber-800" : "bg-blue-100 text-blue-800"
+          }`}
+        >
+          {order.pickOrder ? "PICKUP" : "DELIVERY"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="font-semibold text-gray-900">{order.user?.name ?? "Unknown"}</p>
+          <p className="text-gray-600">{order.phone || "--"}</p>
+        </div>
+        <div>
+          {!order.pickOrder && <p className="text-gray-600 whitespace-pre-line">{order.address || "--"}</p>}
+          {order.estimatedDelivery && (
+            <p className="text-gray-600">
+              {order.pickOrder ? "Ready by" : "Deliver by"}: {format(new Date(order.estimatedDelivery), "dd MMM yyyy")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-500">
+            <th className="py-1 w-8"></th>
+            <th className="py-1 font-medium">Item</th>
+            <th className="py-1 font-medium w-16 text-right">Qty</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(order.items ?? []).map((row, idx) => (
+            <tr key={row._id ?? idx} className="border-b border-gray-100">
+              <td className="py-1.5">☐</td>
+              <td className="py-1.5">
+                {row.item?.name ?? "Deleted / unavailable product"}
+                {row.selectedOptions?.length ? (
+                  <p className="text-xs text-gray-600">{describeSelectedOptions(row.selectedOptions)}</p>
+                ) : null}
+              </td>
+              <td className="py-1.5 text-right font-semibold">{row.quantity}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { Fragment } from "react"
+import type { ProductionGroup } from "@/lib/production"
+
+interface ProductionSheetProps {
+  groups: ProductionGroup[]
+}
+
+export function ProductionSheet({ groups }: ProductionSheetProps) {
+  if (groups.length === 0) {
+    return <div className="py-10 text-center text-sm text-gray-500">Nothing to bake for this selection.</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <div key={group.categoryId} className="break-inside-avoid">
+          <div className="flex items-center justify-between border-b-2 border-[#7B3F00] pb-1 mb-2">
+            <h3 className="text-lg font-semibold text-gray-900">{group.categoryName}</h3>
+            <p className="text-sm text-gray-600">{group.quantity} total</p>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 font-medium">Product</th>
+                <th className="py-1 font-medium w-24 text-right">Orders</th>
+                <th className="py-1 font-medium w-24 text-right">Quantity</th>
+                <th className="py-1 font-medium w-16 text-center print:table-cell hidden">Done</th>
+              </tr>
+            </thead>
+            <tbody>
+              {group.lines.map((line) => {
+                // only split out when there's more than the plain product to bake
+                const split = line.variants.some((variant) => variant.options)
+                return (
+                  <Fragment key={line.productId}>
+                    <tr className="border-b border-gray-100">
+                      <td className="py-2 font-medium">{line.name}</td>
+                      <td className="py-2 text-right text-gray-600">{line.orders}</td>
+                      <td className="py-2 text-right text-lg font-bold">{line.quantity}</td>
+                      <td className="py-2 text-center print:table-cell hidden">{split ? "" : "☐"}</td>
+                    </tr>
+                    {split &&
+                      line.variants.map((variant) => (
+                        <tr key={variant.options} className="border-b border-gray-100 text-gray-700">
+                          <td className="py-1.5 pl-6">{variant.options || "No options"}</td>
+                          <td className="py-1.5 text-right text-gray-500">{variant.orders}</td>
+                          <td className="py-1.5 text-right font-semibold">{variant.quantity}</td>
+                          <td className="py-1.5 text-center print:table-cell hidden">☐</td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { IngredientDialog } from "@/components/ingredients/ingredient-dialog"
+import { AllergenBadges } from "@/components/ingredients/allergen-badges"
+import { productAllergens, resolveProductIngredients } from "@/lib/ingredients"
+import type { Ingredient, ProductIngredient } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface IngredientPickerProps {
+  value: ProductIngredient[]
+  onChange: (ingredients: ProductIngredient[]) => void
+  library: Ingredient[]
+  loading?: boolean
+  disabled?: boolean
+}
+
+/** Chooses ingredients from the shared library; allergens follow from the choice */
+export function IngredientPicker({ value, onChange, library, loading, disabled }: IngredientPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [createName, setCreateName] = useState<string | null>(null)
+
+  const { ingredients: selected, unmatched, legacy, unresolvedIds } = resolveProductIngredients({ ingredients: value }, library)
+  const selectedIds = new Set(selected.map((ingredient) => ingredient._id))
+  const allergens = productAllergens({ ingredients: selected })
+
+  // inline copies that aren't in the library stay listed until they're added or dismissed
+  const setSelected = (next: Ingredient[]) => onChange([...next, ...unresolvedIds, ...legacy])
+
+  const toggle = (ingredient: Ingredient) =>
+    setSelected(
+      selectedIds.has(ingredient._id)
+        ? selected.filter((i) => i._id !== ingredient._id)
+        : [...selected, ingredient],
+    )
+
+  const dismissLegacy = (name: string) =>
+    onChange(value.filter((ingredient) => typeof ingredient === "string" || ingredient.name.trim() !== name))
+
+  if (disabled) {
+    return (
+      <div className="space-y-3">
+        {selected.length === 0 ? (
+          <p className="text-sm text-gray-500">No ingredients listed.</p>
+        ) : (
+          <p className="text-sm text-gray-700">{selected.map((ingredient) => ingredient.name).join(", ")}</p>
+        )}
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Allergens:</span>
+          <AllergenBadges allergens={allergens} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full justify-between font-normal"
+            disabled={loading}
+          >
+            {loading ? "Loading ingredients..." : "Choose ingredients"}
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-[var(--radix-popover-trigger-width)] p-0">
+          <Command>
+            <CommandInput placeholder="Search ingredients..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No ingredient matches.</CommandEmpty>
+              <CommandGroup>
+                {library.map((ingredient) => (
+                  <CommandItem key={ingredient._id} value={ingredient.name} onSelect={() => toggle(ingredient)}>
+                    <Check className={cn("w-4 h-4", selectedIds.has(ingredient._id) ? "opacity-100" : "opacity-0")} />
+                    <span className="flex-1">{ingredient.name}</span>
+                    <AllergenBadges allergens={ingredient.allergens ?? []} emptyLabel="" />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            {search.trim() && !library.some((i) => i.name.toLowerCase() === search.trim().toLowerCase()) && (
+              <div className="border-t p-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start gap-2"
+                  onClick={() => {
+                    setCreateName(search.trim())
+                    setOpen(false)
+                  }}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add &ldquo;{search.trim()}&rdquo; to the library
+                </Button>
+              </div>
+            )}
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {selected.map((ingredient) => (
+            <li
+              key={ingredient._id}
+              className="flex items-center gap-2 rounded-full border border-gray-200 bg-gray-50 py-1 pl-1 pr-2 text-sm"
+            >
+              {ingredient.image ? (
+                <img src={ingredient.image} alt="" className="w-6 h-6 rounded-full object-cover" />
+              ) : (
+                <span className="w-6 h-6 rounded-full bg-gray-200" />
+              )}
+              {ingredient.name}
+              <button
+                type="button"
+                onClick={() => toggle(ingredient)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${ingredient.name}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unresolvedIds.length > 0 && (
+        <p className="text-sm text-gray-500">
+          {unresolvedIds.length} more ingredient{unresolvedIds.length === 1 ? " isn't" : "s aren't"} in the loaded library
+          and will be kept as {unresolvedIds.length === 1 ? "it is" : "they are"}.
+        </p>
+      )}
+
+      {unmatched.length > 0 && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 space-y-2">
+          <p>These were typed in before the ingredient library and are saved as they are until they&apos;re added to it:</p>
+          <ul className="flex flex-wrap gap-2">
+            {unmatched.map((name) => (
+              <li key={name} className="flex items-center gap-1 rounded-full bg-white border border-yellow-200 pl-3 pr-1 py-0.5">
+                {name}
+                <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={() => setCreateName(name)}>
+                  Add
+                </Button>
+                <button
+                  type="button"
+                  onClick={() => dismissLegacy(name)}
+                  className="text-yellow-700 hover:text-red-600"
+                  aria-label={`Remove ${name}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Allergens:</span>
+        <AllergenBadges allergens={allergens} />
+      </div>
+
+      <IngredientDialog
+        open={createName !== null}
+        onOpenChange={(next) => !next && setCreateName(null)}
+        mode="add"
+        defaultName={createName ?? ""}
+        onSuccess={(created) => {
+          if (!created) return
+          setSearch("")
+          // the new entry replaces any inline copy with the same name
+          onChange([
+            ...selected,
+            created,
+            ...unresolvedIds,
+            ...legacy.filter((ingredient) => ingredient.name.trim().toLowerCase() !== created.name.toLowerCase()),
+          ])
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+
+import { emptyOptionGroup, type OptionDraft, type OptionGroupDraft } from "@/lib/product-options"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+
+interface OptionGroupsEditorProps {
+  value: OptionGroupDraft[]
+  onChange: (groups: OptionGroupDraft[]) => void
+  disabled?: boolean
+}
+
+/** Sizes, flavours, extras: each group lists its options with the price they add */
+export function OptionGroupsEditor({ value, onChange, disabled }: OptionGroupsEditorProps) {
+  const { symbol, formatMoney } = useCurrency()
+
+  const updateGroup = (index: number, patch: Partial<OptionGroupDraft>) =>
+    onChange(value.map((group, i) => (i === index ? { ...group, ...patch } : group)))
+
+  const updateOption = (groupIndex: number, optionIndex: number, patch: Partial<OptionDraft>) =>
+    updateGroup(groupIndex, {
+      options: value[groupIndex].options.map((option, i) => (i === optionIndex ? { ...option, ...patch } : option)),
+    })
+
+  const setRequired = (index: number, required: boolean) => {
+    const group = value[index]
+    // a required group needs at least one pick; an optional one can have none
+    const minSelect = required ? String(Math.max(1, Number(group.minSelect) || 0)) : "0"
+    updateGroup(index, { required, minSelect })
+  }
+
+  if (disabled && value.length === 0) {
+    return <p className="text-sm text-gray-500">This product has no options.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {value.map((group, groupIndex) => (
+        <div key={group._id ?? groupIndex} className="space-y-4 p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label>Group name</Label>
+              <Input
+                placeholder="e.g. Size, Flavour, Extras"
+                value={group.name}
+                onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            {!disabled && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(value.filter((_, i) => i !== groupIndex))}
+                className="text-red-600 hover:text-red-700"
+                aria-label="Remove option group"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id={`option-group-required-${groupIndex}`}
+                checked={group.required}
+                onCheckedChange={(required) => setRequired(groupIndex, required)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`option-group-required-${groupIndex}`}>Required</Label>
+            </div>
+            <div className="space-y-2">
+              <Label>Min selections</Label>
+              <Input
+                type="number"
+                min={group.required ? 1 : 0}
+                step="1"
+                className="w-28"
+                value={group.minSelect}
+                onChange={(e) => updateGroup(groupIndex, { minSelect: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Max selections</Label>
+              <Input
+                type="number"
+                min={1}
+                step="1"
+                className="w-28"
+                value={group.maxSelect}
+                onChange={(e) => updateGroup(groupIndex, { maxSelect: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Options and price change ({symbol})</Label>
+            {group.options.map((option, optionIndex) => (
+              <div key={option._id ?? optionIndex} className="flex items-center gap-3">
+                <Input
+                  placeholder='e.g. 8" round'
+                  value={option.name}
+                  onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                  disabled={disabled}
+                />
+                {disabled ? (
+                  <span className="w-32 shrink-0 text-sm text-gray-600">
+                    {Number(option.priceDelta)
+                      ? `${Number(option.priceDelta) > 0 ? "+" : "−"}${formatMoney(Math.abs(Number(option.priceDelta)))}`
+                      : "No change"}
+                  </span>
+                ) : (
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-32 shrink-0"
+                    value={option.priceDelta}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { priceDelta: e.target.value })}
+                  />
+                )}
+                {!disabled && group.options.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateGroup(groupIndex, { options: group.options.filter((_, i) => i !== optionIndex) })
+                    }
+                    aria-label="Remove option"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!disabled && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() =>
+                  updateGroup(groupIndex, { options: [...group.options, { name: "", priceDelta: "0" }] })
+                }
+              >
+                <Plus className="w-4 h-4" />
+                Add option
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!disabled && (
+        <Button
+          type="button"
+          onClick={() => onChange([...value, emptyOptionGroup()])}
+          className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+        >
+          <Plus className="w-4 h-4" />
+          Add option group
+        </Button>
+      )}
+    </div>
+  )
+}
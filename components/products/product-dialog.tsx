@@ -9,11 +9,21 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Plus, Upload, Trash2 } from "lucide-react"
+import { Switch } from "@/components/ui/switch"
+import { Upload } from "lucide-react"
 import { toast } from "sonner"
 import { productsAPI } from "@/lib/products-api"
 import { categoriesAPI } from "@/lib/categories-api"
-import type { Product, Category } from "@/lib/types"
+import type { Product, Category, ProductIngredient } from "@/lib/types"
+import { EntityHistory } from "@/components/audit/entity-history"
+import { OptionGroupsEditor } from "@/components/products/option-groups-editor"
+import { IngredientPicker } from "@/components/products/ingredient-picker"
+import { RecipeEditor } from "@/components/products/recipe-editor"
+import { parseOptionGroups, toOptionGroupDrafts, type OptionGroupDraft } from "@/lib/product-options"
+import { resolveProductIngredients } from "@/lib/ingredients"
+import { recipeIngredientId } from "@/lib/costing"
+import { useIngredientLibrary } from "@/hooks/use-ingredient-library"
+import { usePermissions } from "@/hooks/use-permissions"
 
 interface ProductDialogProps {
   open: boolean
@@ -23,12 +33,6 @@ interface ProductDialogProps {
   onSuccess?: () => void
 }
 
-interface Ingredient {
-  name: string
-  image?: File | string
-  preview?: string
-}
-
 interface ProductImage {
   id: string
   file?: File
@@ -46,11 +50,20 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
     category: "",
     description: "",
     price: "",
+    // blank means not tracked / no limit
+    stock: "",
+    dailyCapacity: "",
+    outOfStock: false,
   })
   const [galleryImages, setGalleryImages] = useState<ProductImage[]>([])
-  const [ingredients, setIngredients] = useState<Ingredient[]>([
-    { name: "", image: undefined, preview: "" },
-  ])
+  const [ingredients, setIngredients] = useState<ProductIngredient[]>([])
+  const [recipe, setRecipe] = useState<Record<string, string>>({})
+  const { library, isLoading: loadingLibrary, isError: libraryFailed } = useIngredientLibrary()
+  const { can } = usePermissions()
+  const { ingredients: picked, legacy, unresolvedIds } = resolveProductIngredients({ ingredients }, library)
+  // saving before the library is in would drop every ingredient (and recipe line) it can't name
+  const libraryReady = !loadingLibrary && !libraryFailed
+  const [optionGroups, setOptionGroups] = useState<OptionGroupDraft[]>([])
 
   const isViewMode = mode === "view"
   const title = mode === "add" ? "Add Product" : mode === "edit" ? "Edit Product" : "Product Details"
@@ -66,6 +79,9 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
         category: typeof product.category === "string" ? product.category : product.category?._id ?? "",
         description: product.description || "",
         price: String(product.price ?? ""),
+        stock: typeof product.stock === "number" ? String(product.stock) : "",
+        dailyCapacity: typeof product.dailyCapacity === "number" ? String(product.dailyCapacity) : "",
+        outOfStock: !!product.outOfStock,
       })
 
       const incomingImages =
@@ -84,17 +100,12 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
         })),
       )
 
-      if (product.ingredients && product.ingredients.length > 0) {
-        setIngredients(
-          product.ingredients.map((ing) => ({
-            name: ing.name,
-            image: ing.image,
-            preview: ing.image,
-          })),
-        )
-      } else {
-        setIngredients([{ name: "", image: undefined, preview: "" }])
-      }
+      setOptionGroups(toOptionGroupDrafts(product.optionGroups))
+
+      setIngredients(product.ingredients ?? [])
+      setRecipe(
+        Object.fromEntries((product.recipe ?? []).map((line) => [recipeIngredientId(line), String(line.quantity)])),
+      )
     } else {
       resetForm()
     }
@@ -124,9 +135,11 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
   }
 
   const resetForm = () => {
-    setFormData({ name: "", category: "", description: "", price: "" })
+    setFormData({ name: "", category: "", description: "", price: "", stock: "", dailyCapacity: "", outOfStock: false })
     setGalleryImages([])
-    setIngredients([{ name: "", image: undefined, preview: "" }])
+    setIngredients([])
+    setRecipe({})
+    setOptionGroups([])
   }
 
   const generateImageId = () =>
@@ -171,43 +184,36 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
     setGalleryImages((prev) => prev.filter((img) => img.id !== id))
   }
 
-  const handleIngredientImageChange = (index: number, file?: File) => {
-    if (!file) return
-    const next = [...ingredients]
-    next[index].image = file
-
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      next[index].preview = reader.result as string
-      setIngredients(next)
-    }
-    reader.readAsDataURL(file)
-  }
-
-  const addIngredient = () => {
-    setIngredients([...ingredients, { name: "", image: undefined, preview: "" }])
-  }
-
-  const removeIngredient = (index: number) => {
-    if (ingredients.length > 1) {
-      setIngredients(ingredients.filter((_, i) => i !== index))
-    }
-  }
-
-  const updateIngredientName = (index: number, name: string) => {
-    const next = [...ingredients]
-    next[index].name = name
-    setIngredients(next)
-  }
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (isViewMode) return
 
+    if (!libraryReady) {
+      toast.error("The ingredient library hasn't loaded yet. Try again in a moment.")
+      return
+    }
     if (!formData.name || !formData.category || !formData.price) {
       toast.error("Please fill in all required fields")
       return
     }
+    const wholeNumber = (value: string) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 0)
+    if (!wholeNumber(formData.stock) || !wholeNumber(formData.dailyCapacity)) {
+      toast.error("Stock and daily capacity must be whole numbers of 0 or more")
+      return
+    }
+    const ingredientIds = [...picked.map((ingredient) => ingredient._id), ...unresolvedIds]
+    const recipeLines = ingredientIds
+      .filter((id) => (recipe[id] ?? "") !== "")
+      .map((id) => ({ ingredient: id, quantity: Number(recipe[id]) }))
+    if (recipeLines.some((line) => !(line.quantity >= 0))) {
+      toast.error("Recipe quantities must be numbers of 0 or more")
+      return
+    }
+    const parsedOptions = parseOptionGroups(optionGroups)
+    if (!parsedOptions.success) {
+      toast.error(parsedOptions.error)
+      return
+    }
     if (galleryImages.length === 0) {
       toast.error("Please add at least one product image (up to 5)")
       return
@@ -223,29 +229,20 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
       data.append("category", formData.category)
       data.append("description", formData.description)
       data.append("price", formData.price)
+      data.append("stock", formData.stock)
+      data.append("dailyCapacity", formData.dailyCapacity)
+      data.append("outOfStock", String(formData.outOfStock))
+      data.append("optionGroups", JSON.stringify(parsedOptions.data))
       data.append("existingImages", JSON.stringify(existingImages))
 
       newImages.forEach((img) => {
         if (img.file) data.append("images", img.file)
       })
 
-      const cleanedIngredients = ingredients
-        .filter((ing) => ing.name.trim() !== "")
-        .map((ing) => ({
-          name: ing.name,
-          ...(typeof ing.image === "string" ? { image: ing.image } : {}),
-        }))
-
-      data.append("ingredients", JSON.stringify(cleanedIngredients))
-
-      // append ingredient files in ingredient order (skips ones without file)
-      ingredients
-        .filter((ing) => ing.name.trim() !== "")
-        .forEach((ing) => {
-          if (ing.image instanceof File) {
-            data.append("ingredientImage", ing.image)
-          }
-        })
+      // library ids; names, photos and allergens are read from the library. Inline
+      // copies nobody has mapped yet go back unchanged rather than being dropped
+      data.append("ingredients", JSON.stringify([...ingredientIds, ...legacy]))
+      data.append("recipe", JSON.stringify(recipeLines.filter((line) => line.quantity > 0)))
 
       if (mode === "add") {
         await productsAPI.createProduct(data)
@@ -276,7 +273,7 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
               {!isViewMode && (
                 <Button
                   onClick={handleSubmit}
-                  disabled={loading}
+                  disabled={loading || !libraryReady}
                   className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
                 >
                   {loading ? "Saving..." : "Save Product"}
@@ -358,6 +355,54 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
             </div>
           </div>
 
+          {/* Inventory */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Inventory</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stock">Stock quantity</Label>
+                <Input
+                  id="stock"
+                  type="number"
+                  min={0}
+                  step="1"
+                  placeholder="Leave blank to not track stock"
+                  value={formData.stock}
+                  onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
+                  disabled={isViewMode}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dailyCapacity">Daily bake capacity</Label>
+                <Input
+                  id="dailyCapacity"
+                  type="number"
+                  min={0}
+                  step="1"
+                  placeholder="Leave blank for no limit"
+                  value={formData.dailyCapacity}
+                  onChange={(e) => setFormData({ ...formData, dailyCapacity: e.target.value })}
+                  disabled={isViewMode}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-gray-200 p-4">
+              <div>
+                <Label htmlFor="outOfStock">Out of stock</Label>
+                <p className="text-sm text-gray-500">Customers can&apos;t order this product until it&apos;s switched off.</p>
+              </div>
+              <Switch
+                id="outOfStock"
+                checked={formData.outOfStock}
+                onCheckedChange={(outOfStock) => setFormData({ ...formData, outOfStock })}
+                disabled={isViewMode}
+              />
+            </div>
+          </div>
+
           {/* Media */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Media</h3>
@@ -449,88 +494,60 @@ export function ProductDialog({ open, onOpenChange, product, mode, onSuccess }:
 
           {/* Ingredients */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Add Ingredient</h3>
-
-            {ingredients.map((ingredient, index) => (
-              <div key={index} className="space-y-4 p-4 border border-gray-200 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <Label>Ingredient {index + 1}</Label>
-                  {!isViewMode && ingredients.length > 1 && (
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeIngredient(index)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label>Name of ingredient</Label>
-                  <Input
-                    placeholder="Onion"
-                    value={ingredient.name}
-                    onChange={(e) => updateIngredientName(index, e.target.value)}
-                    disabled={isViewMode}
-                  />
-                </div>
-
-                {/* Ingredient image */}
-                <div className="space-y-2">
-                  <Label>Ingredient Image</Label>
-
-                  {ingredient.preview ? (
-                    <div className="space-y-2">
-                      <img src={ingredient.preview} alt="Ingredient preview" className="max-h-32 rounded-lg object-cover" />
-                      {!isViewMode && (
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            const next = [...ingredients]
-                            next[index].image = undefined
-                            next[index].preview = ""
-                            setIngredients(next)
-                          }}
-                        >
-                          Remove
-                        </Button>
-                      )}
-                    </div>
-                  ) : (
-                    !isViewMode && (
-                      <Button type="button" variant="outline" size="sm" asChild>
-                        <label className="cursor-pointer">
-                          Add Ingredient Image
-                          <input
-                            type="file"
-                            accept="image/*"
-                            className="hidden"
-                            onChange={(e) => handleIngredientImageChange(index, e.target.files?.[0])}
-                          />
-                        </label>
-                      </Button>
-                    )
-                  )}
-                </div>
-              </div>
-            ))}
-
-            {!isViewMode && (
-              <Button
-                type="button"
-                onClick={addIngredient}
-                className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
-              >
-                <Plus className="w-4 h-4" />
-                Add More Ingredient
-              </Button>
+            <div>
+              <h3 className="text-lg font-semibold">Ingredients</h3>
+              <p className="text-sm text-gray-500">
+                Picked from the ingredient library. Allergen labels come from the ingredients chosen.
+              </p>
+            </div>
+            <IngredientPicker
+              value={ingredients}
+              onChange={setIngredients}
+              library={library}
+              loading={loadingLibrary}
+              disabled={isViewMode}
+            />
+            {libraryFailed && !isViewMode && (
+              <p className="text-sm text-red-600">
+                The ingredient library couldn&apos;t be loaded, so this product can&apos;t be saved right now.
+              </p>
             )}
           </div>
+
+          {/* Recipe */}
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold">Recipe</h3>
+              <p className="text-sm text-gray-500">
+                How much of each ingredient goes into one unit, in the ingredient&apos;s unit.
+              </p>
+            </div>
+            <RecipeEditor
+              ingredients={picked}
+              value={recipe}
+              onChange={setRecipe}
+              price={Number(formData.price) || 0}
+              showCosts={can("costing:view")}
+              disabled={isViewMode}
+            />
+          </div>
+
+          {/* Options */}
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold">Options</h3>
+              <p className="text-sm text-gray-500">
+                Sizes, flavours and extras customers choose from. Price changes are added to the product price.
+              </p>
+            </div>
+            <OptionGroupsEditor value={optionGroups} onChange={setOptionGroups} disabled={isViewMode} />
+          </div>
+
+          {product && mode !== "add" && can("audit:view") && (
+            <div className="border-t border-gray-200 pt-4">
+              <EntityHistory entityType="product" entityId={product._id} />
+            </div>
+          )}
         </form>
       </DialogContent>
     </Dialog>
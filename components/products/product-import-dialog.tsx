@@ -0,0 +1,435 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { Download, FileSpreadsheet, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { productsAPI } from "@/lib/products-api"
+import { categoriesAPI } from "@/lib/categories-api"
+import { exportFileName, exportRows } from "@/lib/export"
+import { formatAuditValue } from "@/lib/audit"
+import {
+  IMPORT_FIELDS,
+  TEMPLATE_COLUMNS,
+  errorReportColumns,
+  guessMapping,
+  importFormData,
+  planImport,
+  readSpreadsheet,
+  type ImportAction,
+  type ImportMapping,
+  type ImportRow,
+  type SpreadsheetRows,
+} from "@/lib/product-import"
+import type { Category } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { useProductCatalogue } from "@/hooks/use-product-catalogue"
+
+interface ProductImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+type Step = "upload" | "map" | "preview" | "importing" | "done"
+
+const NOT_MAPPED = "__none__"
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "No change",
+  error: "Error",
+}
+
+const ACTION_CLASSES: Record<ImportAction, string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-[#DCEBFB] text-[#2D6CB8]",
+  unchanged: "bg-gray-100 text-gray-600",
+  error: "bg-red-100 text-red-700",
+}
+
+export function ProductImportDialog({ open, onOpenChange, onSuccess }: ProductImportDialogProps) {
+  const queryClient = useQueryClient()
+  const { formatMoney, formatNumber, currency, locale } = useCurrency()
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [sheet, setSheet] = useState<SpreadsheetRows>({ headers: [], rows: [] })
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  // fixed when the preview opens so refetches during the import can't reshuffle it
+  const [plan, setPlan] = useState<ImportRow[]>([])
+  const [filter, setFilter] = useState<ImportAction | "all">("all")
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [failures, setFailures] = useState<ImportRow[]>([])
+
+  const { products, isLoading: loadingProducts } = useProductCatalogue(open)
+
+  const { data: categoriesData, isLoading: loadingCategories } = useQuery({
+    queryKey: ["categories"],
+    queryFn: () => categoriesAPI.getCategories({ limit: 1000 }),
+    enabled: open,
+  })
+
+  const categories: Category[] = useMemo(() => {
+    if (Array.isArray(categoriesData)) return categoriesData
+    if (Array.isArray((categoriesData as any)?.data)) return (categoriesData as any).data
+    return []
+  }, [categoriesData])
+
+  useEffect(() => {
+    if (!open) return
+    setStep("upload")
+    setFileName("")
+    setSheet({ headers: [], rows: [] })
+    setMapping({})
+    setPlan([])
+    setFilter("all")
+    setProgress({ done: 0, total: 0 })
+    setFailures([])
+  }, [open])
+
+  const counts = useMemo(() => {
+    const result: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 }
+    for (const row of plan) result[row.action]++
+    return result
+  }, [plan])
+
+  const toApply = plan.filter((row) => row.action === "create" || row.action === "update")
+  const invalid = plan.filter((row) => row.action === "error")
+  const missingRequired = IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const parsed = await readSpreadsheet(file)
+      if (parsed.rows.length === 0) {
+        toast.error("That file has no product rows")
+        return
+      }
+      setFileName(file.name)
+      setSheet(parsed)
+      setMapping(guessMapping(parsed.headers))
+      setStep("map")
+    } catch (error) {
+      console.error(error)
+      toast.error("Couldn't read that file. Use a .csv or .xlsx spreadsheet.")
+    }
+  }
+
+  const runImport = async () => {
+    setStep("importing")
+    setProgress({ done: 0, total: toApply.length })
+    const failed: ImportRow[] = []
+
+    // one at a time: keeps the audit log in sheet order and the API unhurried
+    for (const row of toApply) {
+      try {
+        const data = importFormData(row.values!, row.existing)
+        if (row.action === "create") await productsAPI.createProduct(data)
+        else await productsAPI.updateProduct(row.existing!._id, data)
+      } catch (error: any) {
+        failed.push({ ...row, errors: [error?.response?.data?.message || "The server rejected this row"] })
+      }
+      setProgress((prev) => ({ ...prev, done: prev.done + 1 }))
+    }
+
+    setFailures(failed)
+    setStep("done")
+    void queryClient.invalidateQueries({ queryKey: ["products"] })
+    onSuccess?.()
+
+    const saved = toApply.length - failed.length
+    if (failed.length) toast.error(`Imported ${saved} of ${toApply.length} products`)
+    else toast.success(`Imported ${saved} product${saved === 1 ? "" : "s"}`)
+  }
+
+  const downloadErrorReport = (format: "csv" | "xlsx") =>
+    exportRows(
+      [...invalid, ...failures].sort((a, b) => a.line - b.line),
+      errorReportColumns(sheet.headers),
+      exportFileName("product-import-errors"),
+      format,
+      "Errors",
+    )
+
+  const visibleRows = filter === "all" ? plan : plan.filter((row) => row.action === filter)
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== "importing" && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Import Products</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Create or update many products at once from a CSV or Excel sheet."}
+            {step === "map" && `${fileName}: ${sheet.rows.length} rows. Match your columns to product fields.`}
+            {step === "preview" && "Check what will happen before anything is saved."}
+            {step === "importing" && "Saving products. Keep this window open."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center space-y-3">
+              <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+              </div>
+              <p className="text-sm text-gray-600">
+                One product per row. Rows update the product with the same name (or Product ID) and create the rest.
+              </p>
+              <Button
+                type="button"
+                size="sm"
+                className="gap-2 bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+                disabled={loadingProducts || loadingCategories}
+                asChild
+              >
+                <label htmlFor="product-import-file" className="cursor-pointer">
+                  <Upload className="w-4 h-4" />
+                  {loadingProducts || loadingCategories ? "Loading catalogue..." : "Choose file"}
+                  <input
+                    id="product-import-file"
+                    type="file"
+                    accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={handleFile}
+                    disabled={loadingProducts || loadingCategories}
+                  />
+                </label>
+              </Button>
+            </div>
+            <div className="flex items-center justify-between text-sm text-gray-500">
+              <span>
+                Blank cells leave a field as it is. Typed prices read like {formatNumber(1234.56)}. Out of stock takes yes
+                or no.
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => exportRows([], TEMPLATE_COLUMNS, "product-import-template", "csv")}
+              >
+                <Download className="w-4 h-4" />
+                Template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? undefined : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Don&apos;t import</SelectItem>
+                      {sheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Choose a column for {missingRequired.map((field) => field.label).join(", ")}.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                disabled={missingRequired.length > 0}
+                onClick={() => {
+                  setPlan(planImport(sheet, mapping, categories, products, { currency, locale }))
+                  setFilter("all")
+                  setStep("preview")
+                }}
+                className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(["all", "create", "update", "unchanged", "error"] as const).map((action) => (
+                <Button
+                  key={action}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFilter(action)}
+                  className={cn(filter === action && "bg-[#DCEBFB] text-[#2D6CB8] border-[#5B9FED]")}
+                >
+                  {action === "all" ? `All (${plan.length})` : `${ACTION_LABELS[action]} (${counts[action]})`}
+                </Button>
+              ))}
+            </div>
+
+            <div className="max-h-[45vh] overflow-y-auto rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead className="w-28">Action</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-gray-500">{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={ACTION_CLASSES[row.action]}>
+                          {ACTION_LABELS[row.action]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {row.values?.name || (mapping.name && row.cells[mapping.name]) || "—"}
+                      </TableCell>
+                      <TableCell className="whitespace-normal text-sm">
+                        {row.action === "error" && <span className="text-red-600">{row.errors.join("; ")}</span>}
+                        {row.action === "update" && (
+                          <ul className="space-y-0.5">
+                            {row.changes.map((change) => (
+                              <li key={change.field}>
+                                <span className="text-gray-500">{change.field}:</span>{" "}
+                                {change.field === "category"
+                                  ? `${categoryName(categories, change.before)} → ${categoryName(categories, change.after)}`
+                                  : `${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {row.action === "create" && (
+                          <span className="text-gray-600">
+                            {categoryName(categories, row.values?.category)} · {formatMoney(row.values?.price)}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {visibleRows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="py-6 text-center text-gray-500">
+                        Nothing here
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm text-gray-600">
+                {counts.error > 0 && (
+                  <>
+                    {counts.error} row{counts.error === 1 ? "" : "s"} with errors will be skipped.{" "}
+                    <button type="button" className="text-[#2D6CB8] hover:underline" onClick={() => downloadErrorReport("csv")}>
+                      Download error report
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => setStep("map")}>
+                  Back
+                </Button>
+                <Button
+                  type="button"
+                  disabled={toApply.length === 0}
+                  onClick={runImport}
+                  className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white"
+                >
+                  Import {toApply.length} product{toApply.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-center text-sm text-gray-600">
+              {progress.done} of {progress.total} saved
+            </p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {toApply.length - failures.length} of {toApply.length} products saved.
+              {counts.unchanged > 0 && ` ${counts.unchanged} already matched the sheet.`}
+            </p>
+            {invalid.length + failures.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  {invalid.length + failures.length} row{invalid.length + failures.length === 1 ? " was" : "s were"}{" "}
+                  not imported.
+                </span>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => downloadErrorReport("csv")}>
+                    <Download className="w-4 h-4" />
+                    Error report (.csv)
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => downloadErrorReport("xlsx")}>
+                    <Download className="w-4 h-4" />
+                    Error report (.xlsx)
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button type="button" onClick={() => onOpenChange(false)} className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white">
+                Close
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function categoryName(categories: Category[], id: unknown) {
+  return categories.find((category) => category._id === id)?.name ?? formatAuditValue(id)
+}
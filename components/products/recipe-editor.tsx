@@ -0,0 +1,97 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toMargin } from "@/lib/costing"
+import type { Ingredient } from "@/lib/types"
+import { useCurrency } from "@/hooks/use-store-settings"
+import { cn } from "@/lib/utils"
+
+interface RecipeEditorProps {
+  /** The product's chosen ingredients, in picker order */
+  ingredients: Ingredient[]
+  /** Quantity per unit of product by ingredient id; blank means not in the recipe */
+  value: Record<string, string>
+  onChange: (quantities: Record<string, string>) => void
+  price: number
+  showCosts?: boolean
+  disabled?: boolean
+}
+
+const unitLabel = (ingredient: Ingredient) => (ingredient.unit === "each" ? "pcs" : ingredient.unit ?? "g")
+
+/** How much of each ingredient one unit takes, and what that costs against the price */
+export function RecipeEditor({ ingredients, value, onChange, price, showCosts, disabled }: RecipeEditorProps) {
+  const { formatMoney, formatPercent } = useCurrency()
+
+  if (ingredients.length === 0) {
+    return <p className="text-sm text-gray-500">Choose ingredients above to enter recipe quantities.</p>
+  }
+
+  let cost = 0
+  let uncosted = 0
+  for (const ingredient of ingredients) {
+    const qty = Number(value[ingredient._id] || 0)
+    if (!qty) continue
+    if (typeof ingredient.unitCost === "number") cost += ingredient.unitCost * qty
+    else uncosted++
+  }
+  const margin = toMargin(price, cost)
+  const hasRecipe = ingredients.some((ingredient) => Number(value[ingredient._id] || 0) > 0)
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {ingredients.map((ingredient) => {
+          const qty = Number(value[ingredient._id] || 0)
+          return (
+            <div key={ingredient._id} className="flex items-center gap-3">
+              <Label htmlFor={`recipe-${ingredient._id}`} className="flex-1 font-normal">
+                {ingredient.name}
+              </Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={`recipe-${ingredient._id}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  className="w-28"
+                  placeholder="0"
+                  value={value[ingredient._id] ?? ""}
+                  onChange={(e) => onChange({ ...value, [ingredient._id]: e.target.value })}
+                  disabled={disabled}
+                />
+                <span className="w-8 text-sm text-gray-500">{unitLabel(ingredient)}</span>
+              </div>
+              {showCosts && (
+                <span className="w-24 text-right text-sm text-gray-600">
+                  {!qty ? "—" : typeof ingredient.unitCost === "number" ? formatMoney(ingredient.unitCost * qty) : "No cost"}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {showCosts && hasRecipe && (
+        <div className="flex flex-wrap justify-end gap-x-6 gap-y-1 border-t border-gray-200 pt-3 text-sm">
+          <span className="text-gray-600">
+            Cost per unit: <span className="font-semibold text-gray-900">{formatMoney(cost)}</span>
+          </span>
+          <span className="text-gray-600">
+            Margin:{" "}
+            <span className={cn("font-semibold", margin.margin < 0 ? "text-red-600" : "text-gray-900")}>
+              {formatMoney(margin.margin)}
+              {margin.ratio !== null && ` (${formatPercent(margin.ratio)})`}
+            </span>
+          </span>
+          {uncosted > 0 && (
+            <p className="w-full text-right text-xs text-orange-700">
+              {uncosted} ingredient{uncosted === 1 ? " has" : "s have"} no cost yet, so the real cost is higher.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
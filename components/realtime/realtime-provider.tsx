@@ -0,0 +1,157 @@
+"use client"
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useQueryClient } from "@tanstack/react-query"
+import { io, type Socket } from "socket.io-client"
+import { toast } from "sonner"
+
+import { peekAccessToken, subscribeAccessToken } from "@/lib/auth-token"
+import { applyOrderEvent } from "@/lib/order-cache"
+import { formatMoney } from "@/lib/format"
+import type { Order } from "@/lib/types"
+import { useStoreSettings } from "@/hooks/use-store-settings"
+
+export const ORDER_CREATED = "order-created"
+export const ORDER_UPDATED = "order-updated"
+export const LOW_STOCK = "low-stock"
+export const CHAT_MESSAGE = "message"
+
+const SOUND_KEY = "dashboard.orderSound"
+
+type RealtimeContextValue = {
+  /** Shared, authenticated connection; null until signed in */
+  socket: Socket | null
+  connected: boolean
+  /** New orders since the Order Lists page was last opened */
+  unreadOrders: number
+  soundEnabled: boolean
+  setSoundEnabled: (enabled: boolean) => void
+}
+
+const RealtimeContext = createContext<RealtimeContextValue>({
+  socket: null,
+  connected: false,
+  unreadOrders: 0,
+  soundEnabled: false,
+  setSoundEnabled: () => {},
+})
+
+export function useRealtime() {
+  return useContext(RealtimeContext)
+}
+
+// Events arrive either as the order itself or wrapped like chat messages: { data }
+function unwrapOrder(payload: unknown): Order | null {
+  const candidate = (payload as { data?: unknown })?.data ?? payload
+  const order = Array.isArray(candidate) ? candidate[0] : candidate
+  return order && typeof order === "object" && "_id" in order ? (order as Order) : null
+}
+
+// Short two-note chime; no audio asset needed
+function playChime() {
+  try {
+    const ctx = new AudioContext()
+    ;[880, 1320].forEach((freq, i) => {
+      const osc = ctx.createOscillator()
+      const gain = ctx.createGain()
+      const start = ctx.currentTime + i * 0.15
+      osc.frequency.value = freq
+      gain.gain.setValueAtTime(0.15, start)
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3)
+      osc.connect(gain).connect(ctx.destination)
+      osc.start(start)
+      osc.stop(start + 0.3)
+    })
+    setTimeout(() => void ctx.close(), 1000)
+  } catch {
+    // autoplay blocked or no audio support
+  }
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  // Same token the API layer uses, so a silent refresh reconnects the socket
+  const accessToken = useSyncExternalStore(subscribeAccessToken, peekAccessToken, () => null)
+  const queryClient = useQueryClient()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { settings } = useStoreSettings()
+
+  const [socket, setSocket] = useState<Socket | null>(null)
+  const [connected, setConnected] = useState(false)
+  const [unreadOrders, setUnreadOrders] = useState(0)
+  const [soundEnabled, setSoundState] = useState(false)
+
+  const onOrdersPage = pathname === "/dashboard/orders"
+  const onOrdersPageRef = useRef(onOrdersPage)
+  const soundRef = useRef(soundEnabled)
+  const settingsRef = useRef(settings)
+  onOrdersPageRef.current = onOrdersPage
+  soundRef.current = soundEnabled
+  settingsRef.current = settings
+
+  useEffect(() => {
+    setSoundState(localStorage.getItem(SOUND_KEY) === "on")
+  }, [])
+
+  const setSoundEnabled = useCallback((enabled: boolean) => {
+    localStorage.setItem(SOUND_KEY, enabled ? "on" : "off")
+    setSoundState(enabled)
+  }, [])
+
+  useEffect(() => {
+    if (onOrdersPage) setUnreadOrders(0)
+  }, [onOrdersPage])
+
+  useEffect(() => {
+    const url = process.env.NEXT_PUBLIC_SOCKET_BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || ""
+    if (!url || !accessToken) return
+
+    const s = io(url, { auth: { token: accessToken }, withCredentials: true })
+
+    s.on("connect", () => setConnected(true))
+    s.on("disconnect", () => setConnected(false))
+
+    s.on(ORDER_CREATED, (payload: unknown) => {
+      const order = unwrapOrder(payload)
+      if (!order) return
+      applyOrderEvent(queryClient, "created", order)
+
+      if (!onOrdersPageRef.current) setUnreadOrders((n) => n + 1)
+      const { notifications, pricing } = settingsRef.current
+      if (!notifications.newOrders) return
+      if (soundRef.current) playChime()
+      toast(`New order #${String(order._id).slice(-6)}`, {
+        description: `${order.user?.name ?? "Unknown"} · ${formatMoney(order.totalAmount, pricing)}`,
+        action: { label: "View", onClick: () => router.push(`/dashboard/orders/${order._id}`) },
+      })
+    })
+
+    s.on(ORDER_UPDATED, (payload: unknown) => {
+      const order = unwrapOrder(payload)
+      if (order) applyOrderEvent(queryClient, "updated", order)
+    })
+
+    setSocket(s)
+    return () => {
+      s.disconnect()
+      setSocket(null)
+      setConnected(false)
+    }
+  }, [accessToken, queryClient, router])
+
+  return (
+    <RealtimeContext.Provider value={{ socket, connected, unreadOrders, soundEnabled, setSoundEnabled }}>
+      {children}
+    </RealtimeContext.Provider>
+  )
+}
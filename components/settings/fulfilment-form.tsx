@@ -0,0 +1,290 @@
+"use client"
+
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { WEEKDAYS, fulfilmentSchema, type FulfilmentSettings } from "@/lib/settings"
+import { useCurrency, useSaveSettings } from "@/hooks/use-store-settings"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { SectionFooter } from "./section-footer"
+
+interface FulfilmentFormProps {
+  values: FulfilmentSettings
+  readOnly?: boolean
+}
+
+export function FulfilmentForm({ values, readOnly }: FulfilmentFormProps) {
+  const form = useForm<FulfilmentSettings>({ resolver: zodResolver(fulfilmentSchema), defaultValues: values })
+  const save = useSaveSettings("fulfilment")
+  const { symbol } = useCurrency()
+
+  const rules = useFieldArray({ control: form.control, name: "deliveryRules" })
+  const slots = useFieldArray({ control: form.control, name: "pickupSlots" })
+
+  const deliveryEnabled = form.watch("deliveryEnabled")
+  const pickupEnabled = form.watch("pickupEnabled")
+
+  const onSubmit = form.handleSubmit(async (fulfilment) => {
+    // the backend matches the first zone that covers the distance
+    const sorted = {
+      ...fulfilment,
+      deliveryRules: [...fulfilment.deliveryRules].sort((a, b) => a.maxDistanceKm - b.maxDistanceKm),
+    }
+    try {
+      const saved = await save.mutateAsync(sorted)
+      form.reset(saved.fulfilment)
+      toast.success("Delivery and pickup saved")
+    } catch {
+      toast.error("Failed to save delivery and pickup")
+    }
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-8">
+        <fieldset disabled={readOnly} className="space-y-8">
+          <section className="space-y-4">
+            <FormField
+              control={form.control}
+              name="deliveryEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <FormLabel className="text-lg font-semibold">Delivery</FormLabel>
+                    <FormDescription>Fees are charged by distance from the store.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={readOnly} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {deliveryEnabled && (
+              <>
+                <div className="space-y-3">
+                  {rules.fields.length === 0 && (
+                    <p className="text-sm text-gray-500">No delivery zones yet. Add one to start charging for delivery.</p>
+                  )}
+                  {rules.fields.map((rule, index) => (
+                    <div key={rule.id} className="grid grid-cols-[1fr_9rem_9rem_auto] items-start gap-3">
+                      <FormField
+                        control={form.control}
+                        name={`deliveryRules.${index}.label`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Zone</FormLabel>}
+                            <FormControl>
+                              <Input placeholder="e.g. City centre" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`deliveryRules.${index}.maxDistanceKm`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Up to (km)</FormLabel>}
+                            <FormControl>
+                              <Input type="number" step="0.1" min={0} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`deliveryRules.${index}.fee`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Fee ({symbol})</FormLabel>}
+                            <FormControl>
+                              <Input type="number" step="0.01" min={0} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className={index === 0 ? "mt-[1.375rem]" : undefined}
+                        onClick={() => rules.remove(index)}
+                        aria-label="Remove zone"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                  <FormField
+                    control={form.control}
+                    name="deliveryRules"
+                    render={() => (
+                      <FormItem>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => rules.append({ label: "", maxDistanceKm: 0, fee: 0 })}
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add zone
+                  </Button>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="freeDeliveryOver"
+                  render={({ field }) => (
+                    <FormItem className="max-w-xs">
+                      <FormLabel>Free delivery over ({symbol})</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min={0} {...field} />
+                      </FormControl>
+                      <FormDescription>0 means delivery is never free.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+          </section>
+
+          <section className="space-y-4 border-t border-gray-100 pt-6">
+            <FormField
+              control={form.control}
+              name="pickupEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <FormLabel className="text-lg font-semibold">Pickup</FormLabel>
+                    <FormDescription>Customers choose one of these slots at checkout.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={readOnly} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {pickupEnabled && (
+              <div className="space-y-3">
+                {slots.fields.length === 0 && <p className="text-sm text-gray-500">No pickup slots yet.</p>}
+                {slots.fields.map((slot, index) => (
+                  <div key={slot.id} className="grid grid-cols-[10rem_8rem_8rem_7rem_auto] items-start gap-3">
+                    <FormField
+                      control={form.control}
+                      name={`pickupSlots.${index}.day`}
+                      render={({ field }) => (
+                        <FormItem>
+                          {index === 0 && <FormLabel>Day</FormLabel>}
+                          <Select value={field.value} onValueChange={field.onChange} disabled={readOnly}>
+                            <FormControl>
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {WEEKDAYS.map((day) => (
+                                <SelectItem key={day} value={day}>
+                                  {day}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`pickupSlots.${index}.from`}
+                      render={({ field }) => (
+                        <FormItem>
+                          {index === 0 && <FormLabel>From</FormLabel>}
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`pickupSlots.${index}.to`}
+                      render={({ field }) => (
+                        <FormItem>
+                          {index === 0 && <FormLabel>To</FormLabel>}
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`pickupSlots.${index}.capacity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          {index === 0 && <FormLabel>Orders</FormLabel>}
+                          <FormControl>
+                            <Input type="number" step="1" min={1} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className={index === 0 ? "mt-[1.375rem]" : undefined}
+                      onClick={() => slots.remove(index)}
+                      aria-label="Remove slot"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => slots.append({ day: "Monday", from: "09:00", to: "12:00", capacity: 10 })}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add slot
+                </Button>
+              </div>
+            )}
+          </section>
+        </fieldset>
+
+        <SectionFooter form={form} isSaving={save.isPending} readOnly={readOnly} />
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toast } from "sonner"
+
+import { notificationsSchema, type NotificationPreferences } from "@/lib/settings"
+import { useSaveSettings } from "@/hooks/use-store-settings"
+
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { SectionFooter } from "./section-footer"
+
+interface NotificationsFormProps {
+  values: NotificationPreferences
+  readOnly?: boolean
+}
+
+type Toggle = Exclude<keyof NotificationPreferences, "summaryEmail">
+
+const TOGGLES: { name: Toggle; label: string; description: string }[] = [
+  { name: "newOrders", label: "New orders", description: "A toast, chime and bell entry when an order comes in." },
+  { name: "failedPayments", label: "Failed payments", description: "When a customer's payment doesn't go through." },
+  { name: "messages", label: "Customer messages", description: "New chat messages addressed to staff." },
+  { name: "lowStock", label: "Low stock", description: "When a product is about to sell out." },
+]
+
+export function NotificationsForm({ values, readOnly }: NotificationsFormProps) {
+  const form = useForm<NotificationPreferences>({ resolver: zodResolver(notificationsSchema), defaultValues: values })
+  const save = useSaveSettings("notifications")
+
+  const dailySummary = form.watch("dailySummary")
+
+  const onSubmit = form.handleSubmit(async (notifications) => {
+    try {
+      const saved = await save.mutateAsync(notifications)
+      form.reset(saved.notifications)
+      toast.success("Notification preferences saved")
+    } catch {
+      toast.error("Failed to save notification preferences")
+    }
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-6">
+        <fieldset disabled={readOnly} className="space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">In the dashboard</h3>
+            {TOGGLES.map((toggle) => (
+              <FormField
+                key={toggle.name}
+                control={form.control}
+                name={toggle.name}
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-4">
+                    <div className="space-y-1">
+                      <FormLabel>{toggle.label}</FormLabel>
+                      <FormDescription>{toggle.description}</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} disabled={readOnly} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">By email</h3>
+            <FormField
+              control={form.control}
+              name="dailySummary"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <FormLabel>Daily summary</FormLabel>
+                    <FormDescription>Yesterday&apos;s orders, revenue and refunds, sent every morning.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={readOnly} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {dailySummary && (
+              <FormField
+                control={form.control}
+                name="summaryEmail"
+                render={({ field }) => (
+                  <FormItem className="max-w-md">
+                    <FormLabel>Send the summary to</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="owner@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </section>
+        </fieldset>
+
+        <SectionFooter form={form} isSaving={save.isPending} readOnly={readOnly} />
+      </form>
+    </Form>
+  )
+}
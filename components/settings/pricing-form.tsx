@@ -0,0 +1,139 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { toast } from "sonner"
+
+import { CURRENCIES, LOCALES, pricingSchema, type PricingSettings } from "@/lib/settings"
+import { formatMoney } from "@/lib/format"
+import { useSaveSettings } from "@/hooks/use-store-settings"
+
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { SectionFooter } from "./section-footer"
+
+interface PricingFormProps {
+  values: PricingSettings
+  readOnly?: boolean
+}
+
+export function PricingForm({ values, readOnly }: PricingFormProps) {
+  const form = useForm<PricingSettings>({ resolver: zodResolver(pricingSchema), defaultValues: values })
+  const save = useSaveSettings("pricing")
+
+  const [currency, locale] = form.watch(["currency", "locale"])
+
+  const onSubmit = form.handleSubmit(async (pricing) => {
+    try {
+      const saved = await save.mutateAsync(pricing)
+      form.reset(saved.pricing)
+      toast.success("Currency and tax saved")
+    } catch {
+      toast.error("Failed to save currency and tax")
+    }
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-6">
+        <fieldset disabled={readOnly} className="space-y-6 max-w-md">
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={readOnly}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>
+                        {c.code} · {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Existing prices are not converted.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="locale"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Number format</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={readOnly}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {LOCALES.map((l) => (
+                      <SelectItem key={l.code} value={l.code}>
+                        {l.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Amounts across the dashboard will show as {formatMoney(12345.5, { currency, locale })}.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="taxRate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tax rate (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min={0} max={100} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="pricesIncludeTax"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <FormLabel>Prices include tax</FormLabel>
+                  <FormDescription>Turn off if tax is added on top of product prices at checkout.</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} disabled={readOnly} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </fieldset>
+
+        <SectionFooter form={form} isSaving={save.isPending} readOnly={readOnly} />
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import type { FieldValues, UseFormReturn } from "react-hook-form"
+import { Button } from "@/components/ui/button"
+
+interface SectionFooterProps<T extends FieldValues> {
+  form: UseFormReturn<T>
+  isSaving: boolean
+  /** Roles without settings:manage see the values read-only */
+  readOnly?: boolean
+}
+
+export function SectionFooter<T extends FieldValues>({ form, isSaving, readOnly }: SectionFooterProps<T>) {
+  const { isDirty } = form.formState
+
+  if (readOnly) {
+    return <p className="text-sm text-gray-500">Only the store owner can change these settings.</p>
+  }
+
+  return (
+    <div className="flex justify-end gap-3 border-t border-gray-100 pt-4">
+      <Button type="button" variant="outline" disabled={!isDirty || isSaving} onClick={() => form.reset()}>
+        Discard changes
+      </Button>
+      <Button type="submit" className="bg-[#5B9FED] hover:bg-[#4A8FDD] text-white" disabled={!isDirty || isSaving}>
+        {isSaving ? "Saving..." : "Save changes"}
+      </Button>
+    </div>
+  )
+}
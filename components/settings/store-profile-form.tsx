@@ -0,0 +1,269 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { ImageIcon, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { settingsAPI } from "@/lib/settings-api"
+import { storeProfileSchema, type StoreProfile } from "@/lib/settings"
+import { useSaveSettings } from "@/hooks/use-store-settings"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { SectionFooter } from "./section-footer"
+
+interface StoreProfileFormProps {
+  values: StoreProfile
+  readOnly?: boolean
+}
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024
+
+export function StoreProfileForm({ values, readOnly }: StoreProfileFormProps) {
+  const form = useForm<StoreProfile>({ resolver: zodResolver(storeProfileSchema), defaultValues: values })
+  const save = useSaveSettings("profile")
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+
+  const logo = form.watch("logo")
+  const openingHours = form.watch("openingHours")
+
+  const handleLogoChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    if (!file.type.startsWith("image/")) return toast.error("The logo must be an image")
+    if (file.size > MAX_LOGO_BYTES) return toast.error("The logo must be 2 MB or smaller")
+
+    setUploading(true)
+    try {
+      const url = await settingsAPI.uploadLogo(file)
+      form.setValue("logo", url, { shouldDirty: true })
+    } catch {
+      toast.error("Failed to upload the logo")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const onSubmit = form.handleSubmit(async (profile) => {
+    try {
+      const saved = await save.mutateAsync(profile)
+      form.reset(saved.profile)
+      toast.success("Store profile saved")
+    } catch {
+      toast.error("Failed to save the store profile")
+    }
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-8">
+        <fieldset disabled={readOnly} className="space-y-8">
+          <section className="space-y-4">
+            <h3 className="text-lg font-semibold">Store</h3>
+
+            <div className="flex items-center gap-4">
+              <div className="w-20 h-20 rounded-lg border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden">
+                {logo ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={logo} alt="Store logo" className="w-full h-full object-contain" />
+                ) : (
+                  <ImageIcon className="w-8 h-8 text-gray-300" />
+                )}
+              </div>
+              <div className="space-y-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={uploading}
+                  onClick={() => fileInput.current?.click()}
+                >
+                  <Upload className="w-4 h-4" />
+                  {uploading ? "Uploading..." : logo ? "Replace logo" : "Upload logo"}
+                </Button>
+                <p className="text-xs text-gray-500">PNG, JPG or SVG, up to 2 MB.</p>
+                <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Store name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-lg font-semibold">Address</h3>
+            <FormField
+              control={form.control}
+              name="address.line1"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Street address</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address.line2"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Apartment, suite, etc. (optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="address.city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address.postalCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postal code</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address.country"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Country</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Opening hours</h3>
+            {openingHours.map((day, index) => (
+              <div key={day.day} className="grid grid-cols-[8rem_6rem_1fr] items-start gap-4">
+                <p className="pt-2 font-medium text-gray-900">{day.day}</p>
+                <FormField
+                  control={form.control}
+                  name={`openingHours.${index}.closed`}
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center gap-2 pt-2">
+                      <FormControl>
+                        <Switch
+                          checked={!field.value}
+                          onCheckedChange={(open) => field.onChange(!open)}
+                          disabled={readOnly}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">{field.value ? "Closed" : "Open"}</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                {!day.closed && (
+                  <div className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`openingHours.${index}.from`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="time" className="w-32" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <span className="pt-2 text-gray-500">–</span>
+                    <FormField
+                      control={form.control}
+                      name={`openingHours.${index}.to`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="time" className="w-32" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        </fieldset>
+
+        <SectionFooter form={form} isSaving={save.isPending} readOnly={readOnly} />
+      </form>
+    </Form>
+  )
+}
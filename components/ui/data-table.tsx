@@ -0,0 +1,378 @@
+'use client'
+
+import * as React from 'react'
+import {
+  ArrowDownIcon,
+  ArrowUpDownIcon,
+  ArrowUpIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  Columns3Icon,
+} from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+} from '@/components/ui/pagination'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export interface DataTableColumn<T> {
+  id: string
+  header: React.ReactNode
+  /** Label for the column menu; defaults to `header` when that's a string */
+  title?: string
+  cell: (row: T, index: number) => React.ReactNode
+  /** Backend field this column sorts by; `-field` is sent for descending */
+  sortKey?: string
+  /** First click sorts descending (dates, amounts) */
+  sortDescFirst?: boolean
+  /** Set to false to keep the column out of the visibility menu */
+  hideable?: boolean
+  defaultHidden?: boolean
+  skeleton?: React.ReactNode
+  className?: string
+  headerClassName?: string
+}
+
+export interface DataTablePagination {
+  page: number
+  pageSize: number
+  total: number
+  pages: number
+  onPageChange: (page: number) => void
+  onPageSizeChange?: (pageSize: number) => void
+  pageSizeOptions?: number[]
+}
+
+interface DataTableProps<T> {
+  columns: DataTableColumn<T>[]
+  data: T[]
+  getRowId: (row: T) => string
+  isLoading?: boolean
+  isFetching?: boolean
+  emptyMessage?: React.ReactNode
+  sort?: string
+  onSortChange?: (sort: string) => void
+  pagination?: DataTablePagination
+  /** Rendered on the left of the toolbar row, before the column menu */
+  toolbar?: React.ReactNode
+  /** Rendered between the toolbar and the table, e.g. a bulk-action bar */
+  actionBar?: React.ReactNode
+  /** localStorage key to remember hidden columns under */
+  visibilityKey?: string
+  rowClassName?: (row: T) => string | undefined
+}
+
+const DEFAULT_PAGE_SIZES = [10, 20, 50, 100]
+
+/**
+ * Page numbers to show around `page`, with `'ellipsis'` for the gaps.
+ * Always returns the same number of slots once there are enough pages so
+ * the pager doesn't jump around while paging.
+ */
+export function pageWindow(page: number, pages: number, siblings = 1): (number | 'ellipsis')[] {
+  const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+  const slots = siblings * 2 + 5
+  if (pages <= slots) return range(1, pages)
+
+  const left = Math.max(page - siblings, 1)
+  const right = Math.min(page + siblings, pages)
+  const edge = siblings * 2 + 3
+
+  if (left <= 3) return [...range(1, edge), 'ellipsis', pages]
+  if (right >= pages - 2) return [1, 'ellipsis', ...range(pages - edge + 1, pages)]
+  return [1, 'ellipsis', ...range(left, right), 'ellipsis', pages]
+}
+
+function nextSort(current: string | undefined, column: { sortKey?: string; sortDescFirst?: boolean }) {
+  const key = column.sortKey!
+  if (current === key) return `-${key}`
+  if (current === `-${key}`) return key
+  return column.sortDescFirst ? `-${key}` : key
+}
+
+function columnTitle<T>(column: DataTableColumn<T>) {
+  return column.title ?? (typeof column.header === 'string' ? column.header : undefined)
+}
+
+function useHiddenColumns<T>(columns: DataTableColumn<T>[], storageKey?: string) {
+  const [hidden, setHidden] = React.useState<string[]>(() =>
+    columns.filter((c) => c.defaultHidden).map((c) => c.id),
+  )
+
+  React.useEffect(() => {
+    if (!storageKey) return
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null')
+      if (Array.isArray(stored)) setHidden(stored.filter((id) => typeof id === 'string'))
+    } catch {
+      // ignore a corrupt entry; the defaults apply
+    }
+  }, [storageKey])
+
+  const toggle = React.useCallback(
+    (id: string, visible: boolean) => {
+      setHidden((prev) => {
+        const next = visible ? prev.filter((h) => h !== id) : [...prev, id]
+        if (storageKey) localStorage.setItem(storageKey, JSON.stringify(next))
+        return next
+      })
+    },
+    [storageKey],
+  )
+
+  return [hidden, toggle] as const
+}
+
+function DataTable<T>({
+  columns,
+  data,
+  getRowId,
+  isLoading,
+  isFetching,
+  emptyMessage = 'No results found.',
+  sort,
+  onSortChange,
+  pagination,
+  toolbar,
+  actionBar,
+  visibilityKey,
+  rowClassName,
+}: DataTableProps<T>) {
+  const [hidden, toggleColumn] = useHiddenColumns(columns, visibilityKey)
+  const visibleColumns = columns.filter((c) => !hidden.includes(c.id))
+  const hideableColumns = columns.filter((c) => c.hideable !== false && columnTitle(c))
+
+  return (
+    <div data-slot="data-table">
+      <div className="flex gap-4 mb-6">
+        {toolbar}
+        {hideableColumns.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                type="button"
+                className={cn(
+                  'gap-2 bg-white text-gray-700 border border-gray-200 hover:bg-gray-50',
+                  !toolbar && 'ml-auto',
+                )}
+              >
+                <Columns3Icon className="w-4 h-4" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {hideableColumns.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hidden.includes(column.id)}
+                  onCheckedChange={(v) => toggleColumn(column.id, v === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {columnTitle(column)}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {actionBar}
+
+      <Table>
+        <TableHeader className="bg-[#7B3F00]">
+          <TableRow className="border-0 hover:bg-transparent">
+            {visibleColumns.map((column) => {
+              const sortable = !!column.sortKey && !!onSortChange
+              const direction =
+                sort === column.sortKey ? 'asc' : sort === `-${column.sortKey}` ? 'desc' : null
+              const SortIcon = direction === 'asc' ? ArrowUpIcon : direction === 'desc' ? ArrowDownIcon : ArrowUpDownIcon
+
+              return (
+                <TableHead
+                  key={column.id}
+                  className={cn('h-auto px-4 py-3 font-bold text-white', column.headerClassName)}
+                  aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
+                >
+                  {sortable ? (
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 font-bold hover:opacity-80"
+                      onClick={() => onSortChange!(nextSort(sort, column))}
+                    >
+                      {column.header}
+                      <SortIcon className={cn('w-3.5 h-3.5', !direction && 'opacity-60')} />
+                    </button>
+                  ) : (
+                    column.header
+                  )}
+                </TableHead>
+              )
+            })}
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {isLoading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <TableRow key={i} className="border-gray-200 hover:bg-transparent">
+                {visibleColumns.map((column) => (
+                  <TableCell key={column.id} className="px-4 py-3">
+                    {column.skeleton ?? <Skeleton className="h-4 w-24" />}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          ) : data.length === 0 ? (
+            <TableRow className="hover:bg-transparent">
+              <TableCell colSpan={visibleColumns.length} className="px-4 py-10 text-center text-gray-500">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            data.map((row, index) => (
+              <TableRow key={getRowId(row)} className={cn('border-gray-200 hover:bg-gray-50', rowClassName?.(row))}>
+                {visibleColumns.map((column) => (
+                  <TableCell key={column.id} className={cn('px-4 py-3', column.className)}>
+                    {column.cell(row, index)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {pagination && (
+        <DataTableFooter pagination={pagination} isFetching={!!isFetching && !isLoading} />
+      )}
+    </div>
+  )
+}
+
+function DataTableFooter({
+  pagination,
+  isFetching,
+}: {
+  pagination: DataTablePagination
+  isFetching: boolean
+}) {
+  const { page, pageSize, total, pages, onPageChange, onPageSizeChange } = pagination
+  const pageSizeOptions = pagination.pageSizeOptions ?? DEFAULT_PAGE_SIZES
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1
+  const last = Math.min(page * pageSize, total)
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 mt-6">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <p>
+          Showing {first} to {last} from {total}
+          {isFetching ? <span className="ml-2 text-xs text-gray-400">(Updating...)</span> : null}
+        </p>
+
+        {onPageSizeChange && (
+          <div className="flex items-center gap-2">
+            <span>Rows per page</span>
+            <Select value={String(pageSize)} onValueChange={(v) => onPageSizeChange(Number(v))}>
+              <SelectTrigger size="sm" className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizeOptions.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent className="gap-2">
+          <PaginationItem>
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Go to previous page"
+              onClick={() => onPageChange(Math.max(1, page - 1))}
+              disabled={page <= 1}
+              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
+            >
+              <ChevronLeftIcon className="w-4 h-4" />
+            </Button>
+          </PaginationItem>
+
+          {pageWindow(page, Math.max(1, pages)).map((p, i) =>
+            p === 'ellipsis' ? (
+              <PaginationItem key={`ellipsis-${i}`}>
+                <PaginationEllipsis className="size-8 text-gray-400" />
+              </PaginationItem>
+            ) : (
+              <PaginationItem key={p}>
+                <Button
+                  size="sm"
+                  variant={page === p ? 'default' : 'outline'}
+                  aria-current={page === p ? 'page' : undefined}
+                  className={
+                    page === p
+                      ? 'bg-[#5B9FED] hover:bg-[#4A8FDD] text-white'
+                      : 'border-gray-200 text-gray-600'
+                  }
+                  onClick={() => onPageChange(p)}
+                >
+                  {p}
+                </Button>
+              </PaginationItem>
+            ),
+          )}
+
+          <PaginationItem>
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Go to next page"
+              onClick={() => onPageChange(Math.min(pages, page + 1))}
+              disabled={page >= pages}
+              className="bg-[#DCEBFB] text-[#5B9FED] border-none hover:bg-[#C8E1FA]"
+            >
+              <ChevronRightIcon className="w-4 h-4" />
+            </Button>
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  )
+}
+
+export { DataTable }
@@ -0,0 +1,21 @@
+import { useMemo } from 'react'
+
+import { buildCostBook } from '@/lib/costing'
+import { useIngredientLibrary } from '@/hooks/use-ingredient-library'
+import { useProductCatalogue } from '@/hooks/use-product-catalogue'
+import { usePermissions } from '@/hooks/use-permissions'
+
+/**
+ * Current recipes and ingredient prices for costing. Nothing is fetched for
+ * roles without `costing:view`; `canView` tells callers to hide cost figures.
+ */
+export function useCostBook() {
+  const { can } = usePermissions()
+  const canView = can('costing:view')
+  const { library, isLoading: loadingLibrary } = useIngredientLibrary(canView)
+  const { products, isLoading: loadingProducts } = useProductCatalogue(canView)
+
+  const book = useMemo(() => buildCostBook(products, library), [products, library])
+
+  return { book, canView, isLoading: canView && (loadingLibrary || loadingProducts) }
+}
@@ -0,0 +1,51 @@
+import * as React from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { parseDateRange, writeDateRange, type DateRangeValue } from '@/lib/date-range'
+
+const STORAGE_KEY = 'dashboard.dateRange'
+
+/**
+ * Date range carried in the URL (`?range=` or `?from=&to=`). The last range
+ * picked is remembered so the overview, orders and paid-orders pages share it
+ * when navigated to without one.
+ */
+export function useDateRange(defaultValue: DateRangeValue) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const fromUrl = React.useMemo(() => parseDateRange(searchParams), [searchParams])
+  const defaultKey = JSON.stringify(defaultValue)
+
+  React.useEffect(() => {
+    if (fromUrl) return
+    const stored = parseDateRange(new URLSearchParams(localStorage.getItem(STORAGE_KEY) ?? ''))
+    if (!stored) return
+
+    const params = new URLSearchParams(searchParams.toString())
+    writeDateRange(params, stored)
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fromUrl])
+
+  const value = React.useMemo(
+    () => fromUrl ?? (JSON.parse(defaultKey) as DateRangeValue),
+    [fromUrl, defaultKey],
+  )
+
+  const setValue = React.useCallback(
+    (next: DateRangeValue) => {
+      const stored = new URLSearchParams()
+      writeDateRange(stored, next)
+      localStorage.setItem(STORAGE_KEY, stored.toString())
+
+      const params = new URLSearchParams(searchParams.toString())
+      writeDateRange(params, next)
+      params.delete('page')
+      router.push(`${pathname}?${params.toString()}`, { scroll: false })
+    },
+    [router, pathname, searchParams],
+  )
+
+  return [value, setValue] as const
+}
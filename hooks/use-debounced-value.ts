@@ -0,0 +1,12 @@
+import * as React from 'react'
+
+export function useDebouncedValue<T>(value: T, delay = 400) {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(t)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,62 @@
+import * as React from 'react'
+import { signOut } from 'next-auth/react'
+import { toast } from 'sonner'
+import { IDLE_TIMEOUT_KEY, LAST_ACTIVITY_KEY, loadIdleTimeout } from '@/lib/sessions'
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const
+// Writing the shared timestamp on every event would thrash localStorage
+const ACTIVITY_THROTTLE_MS = 15 * 1000
+const CHECK_INTERVAL_MS = 30 * 1000
+const WARNING_MS = 60 * 1000
+
+/**
+ * Signs the user out after the idle timeout chosen on the Security page.
+ * Activity is shared across tabs through localStorage, so working in one tab
+ * keeps the others alive.
+ */
+export function useIdleTimeout() {
+  const [minutes, setMinutes] = React.useState(0)
+
+  React.useEffect(() => {
+    setMinutes(loadIdleTimeout())
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === IDLE_TIMEOUT_KEY) setMinutes(loadIdleTimeout())
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [])
+
+  React.useEffect(() => {
+    if (!minutes) return
+    const timeoutMs = minutes * 60 * 1000
+    let lastWrite = 0
+    let warned = false
+
+    const markActive = () => {
+      const now = Date.now()
+      warned = false
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return
+      lastWrite = now
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now))
+    }
+
+    const check = () => {
+      const last = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now()
+      const idleFor = Date.now() - last
+      if (idleFor >= timeoutMs) {
+        void signOut({ callbackUrl: '/auth/login' })
+      } else if (idleFor >= timeoutMs - WARNING_MS && !warned) {
+        warned = true
+        toast.warning('You will be signed out in a minute for inactivity')
+      }
+    }
+
+    markActive()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }))
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS)
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive))
+      window.clearInterval(timer)
+    }
+  }, [minutes])
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { ingredientsAPI } from '@/lib/ingredients-api'
+
+/** Lives under ['ingredients'] so saving an ingredient refreshes it too */
+export const INGREDIENT_LIBRARY_QUERY_KEY = ['ingredients', 'library']
+
+/** Every ingredient in the library, for pickers and allergen lookups */
+export function useIngredientLibrary(enabled = true) {
+  const query = useQuery({
+    queryKey: INGREDIENT_LIBRARY_QUERY_KEY,
+    queryFn: () => ingredientsAPI.getAllIngredients({ sort: 'name' }),
+    staleTime: 60 * 1000,
+    enabled,
+  })
+
+  return { ...query, library: query.data ?? [] }
+}
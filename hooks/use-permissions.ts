@@ -0,0 +1,13 @@
+import { useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+
+import { can as roleCan, toRole, type Permission } from '@/lib/permissions'
+
+export function usePermissions() {
+  const { data: session } = useSession()
+  const role = session?.user?.role
+
+  const can = useCallback((permission: Permission) => roleCan(role, permission), [role])
+
+  return { role: toRole(role), can }
+}
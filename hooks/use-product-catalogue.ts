@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { productsAPI } from '@/lib/products-api'
+
+/** Lives under ['products'] so saving a product refreshes it too */
+export const PRODUCT_CATALOGUE_QUERY_KEY = ['products', 'inventory']
+
+/** Every product in the catalogue, for stock alerts, costing and import matching */
+export function useProductCatalogue(enabled = true) {
+  const query = useQuery({
+    queryKey: PRODUCT_CATALOGUE_QUERY_KEY,
+    queryFn: () => productsAPI.getAllProducts(),
+    enabled,
+  })
+
+  return { ...query, products: query.data ?? [] }
+}
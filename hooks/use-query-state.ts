@@ -0,0 +1,92 @@
+import * as React from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { z } from 'zod'
+
+/** 1-based page number; anything unparseable falls back to the first page */
+export const pageParam = z.coerce.number().int().min(1).catch(1)
+
+export const PAGE_SIZES = [10, 20, 50, 100] as const
+
+/** Rows per page, limited to the sizes the tables offer */
+export function pageSizeParam(fallback: (typeof PAGE_SIZES)[number] = 10) {
+  return z.coerce
+    .number()
+    .refine((v) => (PAGE_SIZES as readonly number[]).includes(v))
+    .catch(fallback)
+}
+
+/** Backend `sort` value: one of `fields`, ascending or `-`prefixed for descending */
+export function sortParam<K extends string>(fields: readonly K[], fallback: K | `-${K}`) {
+  const values = fields.flatMap((f) => [f, `-${f}` as const])
+  return enumParam(values as [K | `-${K}`, ...(K | `-${K}`)[]], fallback)
+}
+
+/** One of a fixed set of values, or `fallback` when missing / not in the set */
+export function enumParam<T extends string>(values: readonly [T, ...T[]], fallback: T): z.ZodCatch<z.ZodDefault<z.ZodEnum<[T, ...T[]]>>>
+export function enumParam<T extends string>(values: readonly [T, ...T[]]): z.ZodCatch<z.ZodOptional<z.ZodEnum<[T, ...T[]]>>>
+export function enumParam<T extends string>(values: readonly [T, ...T[]], fallback?: T) {
+  const base = z.enum(values as [T, ...T[]])
+  return fallback === undefined ? base.optional().catch(undefined) : base.default(fallback).catch(fallback)
+}
+
+/** Free text, trimmed; empty means unset */
+export const textParam = z
+  .string()
+  .trim()
+  .optional()
+  .catch(undefined)
+  .transform((v) => v || undefined)
+
+type QueryShape = Record<string, z.ZodTypeAny>
+
+export interface SetQueryOptions {
+  /** Replace the history entry instead of pushing one (e.g. while typing) */
+  replace?: boolean
+}
+
+/**
+ * List-page state (page, sort, filters) kept in the URL so a link restores the
+ * view and back/forward steps through it. Each key is validated by its schema;
+ * bad values fall back to the default, and defaults are left out of the URL.
+ * Keys the schema doesn't know about (e.g. the date range) are preserved.
+ *
+ * Pass a schema defined at module level so its identity is stable.
+ */
+export function useQueryState<S extends QueryShape>(shape: S) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const schema = React.useMemo(() => z.object(shape), [shape])
+  const defaults = React.useMemo(() => schema.parse({}) as z.infer<z.ZodObject<S>>, [schema])
+
+  const state = React.useMemo(() => {
+    const raw: Record<string, string> = {}
+    for (const key of Object.keys(shape)) {
+      const value = searchParams.get(key)
+      if (value !== null) raw[key] = value
+    }
+    return schema.parse(raw) as z.infer<z.ZodObject<S>>
+  }, [schema, shape, searchParams])
+
+  const setQuery = React.useCallback(
+    (patch: Partial<z.infer<z.ZodObject<S>>>, options?: SetQueryOptions) => {
+      const next = { ...state, ...patch }
+      const params = new URLSearchParams(searchParams.toString())
+
+      for (const key of Object.keys(shape)) {
+        const value = next[key]
+        if (value === undefined || value === null || value === '' || value === defaults[key]) params.delete(key)
+        else params.set(key, String(value))
+      }
+
+      const query = params.toString()
+      const url = query ? `${pathname}?${query}` : pathname
+      if (options?.replace) router.replace(url, { scroll: false })
+      else router.push(url, { scroll: false })
+    },
+    [state, defaults, shape, searchParams, pathname, router],
+  )
+
+  return [state, setQuery] as const
+}
@@ -0,0 +1,67 @@
+import { useMemo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { settingsAPI } from '@/lib/settings-api'
+import { DEFAULT_SETTINGS, type SettingsSection, type StoreSettings } from '@/lib/settings'
+import {
+  currencySymbol,
+  formatCompactMoney,
+  formatMoney,
+  formatNumber,
+  formatPercent,
+  formatUnitCost,
+} from '@/lib/format'
+
+export const SETTINGS_QUERY_KEY = ['settings']
+
+/**
+ * Store settings, shared by every page through the query cache. Until they
+ * load (or if the request fails) the defaults are returned, so callers never
+ * have to handle a missing value.
+ */
+export function useStoreSettings() {
+  const { status } = useSession()
+
+  const query = useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: settingsAPI.getSettings,
+    // the auth pages share the providers; don't call the API before sign-in
+    enabled: status === 'authenticated',
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return { ...query, settings: query.data ?? DEFAULT_SETTINGS }
+}
+
+type NumberLike = number | string | null | undefined
+
+/** Formatters from lib/format.ts bound to the store's currency and locale */
+export function useCurrency() {
+  const { settings } = useStoreSettings()
+  const { currency, locale } = settings.pricing
+
+  return useMemo(() => {
+    const money = { currency, locale }
+    return {
+      currency,
+      locale,
+      symbol: currencySymbol(money),
+      formatMoney: (amount: NumberLike) => formatMoney(amount, money),
+      formatCompactMoney: (amount: NumberLike) => formatCompactMoney(amount, money),
+      formatNumber: (value: NumberLike) => formatNumber(value, locale),
+      formatUnitCost: (amount: NumberLike) => formatUnitCost(amount, money),
+      formatPercent: (ratio: NumberLike) => formatPercent(ratio, locale),
+    }
+  }, [currency, locale])
+}
+
+/** Saves one settings tab and puts the saved document straight into the cache */
+export function useSaveSettings<S extends SettingsSection>(section: S) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (values: StoreSettings[S]) => settingsAPI.updateSettings(section, values),
+    onSuccess: (settings) => queryClient.setQueryData(SETTINGS_QUERY_KEY, settings),
+  })
+}
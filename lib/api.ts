@@ -1,4 +1,6 @@
-import axios, { type AxiosInstance } from "axios"
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from "axios"
+import { getAccessToken, setAccessToken } from "./auth-token"
+import { refreshSession } from "./session-refresh"
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3001"
 
@@ -9,10 +11,20 @@ const apiClient: AxiosInstance = axios.create({
   },
 })
 
+// These run before there is a session (or to renew it) and must not look one up
+const PUBLIC_AUTH_PATHS = [
+  "/auth/login",
+  "/auth/refresh-token",
+  "/auth/forgot-password",
+  "/auth/verify-otp",
+  "/auth/reset-password",
+  "/auth/2fa/resend",
+]
+
 apiClient.interceptors.request.use(
-  (config) => {
-    if (typeof window !== "undefined") {
-      const token = localStorage.getItem("accessToken")
+  async (config) => {
+    if (!config.headers.Authorization && !PUBLIC_AUTH_PATHS.includes(config.url ?? "")) {
+      const token = await getAccessToken()
       if (token) {
         config.headers.Authorization = `Bearer ${token}`
       }
@@ -26,15 +38,49 @@ apiClient.interceptors.request.use(
 
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      if (typeof window !== "undefined") {
-        localStorage.removeItem("accessToken")
-        window.location.href = "/auth/login"
+  async (error) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+
+    // The public auth endpoints answer 401 for bad credentials, not for an expired token;
+    // the signed-in ones (/auth/sessions, /auth/2fa, /auth/change-password) refresh like any other call
+    const isPublicAuthPath = PUBLIC_AUTH_PATHS.includes(original?.url ?? "")
+
+    if (error.response?.status === 401 && typeof window !== "undefined" && !isPublicAuthPath) {
+      // Already retried with a fresh token: this 401 is about the request (a wrong
+      // current password or 2FA code), not the session
+      if (original?._retried) return Promise.reject(error)
+
+      // Retry once with a fresh token before giving up on the session
+      if (original) {
+        original._retried = true
+        const token = await refreshSession()
+        if (token) {
+          original.headers.Authorization = `Bearer ${token}`
+          return apiClient(original)
+        }
       }
+
+      setAccessToken(null)
+      const { signOut } = await import("next-auth/react")
+      await signOut({ callbackUrl: "/auth/login" })
     }
     return Promise.reject(error)
   },
 )
 
+/**
+ * Calls `fetchPage` for page 1..pages and concatenates the results. Used
+ * wherever a screen or export needs everything matching its filters, not
+ * just one page.
+ */
+export async function fetchAllPages<T>(fetchPage: (page: number) => Promise<{ items: T[]; pages: number }>) {
+  const first = await fetchPage(1)
+  const all = [...first.items]
+  for (let page = 2; page <= first.pages; page++) {
+    const next = await fetchPage(page)
+    all.push(...next.items)
+  }
+  return all
+}
+
 export default apiClient
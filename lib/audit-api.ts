@@ -0,0 +1,29 @@
+import apiClient from "./api"
+import type { AuditEntityType, AuditEntry } from "./audit"
+import type { PaginatedResponse } from "./types"
+
+export type AuditQueryParams = {
+  page?: number
+  limit?: number
+  sort?: string
+  entityType?: AuditEntityType
+  entityId?: string
+  /** Matches the actor's name or email */
+  actor?: string
+  from?: string
+  to?: string
+}
+
+// Read-only: the backend writes entries inside its own mutation handlers, stamped
+// with the admin from the bearer token, so every client is covered the same way.
+export const auditAPI = {
+  getAuditLogs: async (params: AuditQueryParams): Promise<PaginatedResponse<AuditEntry>> => {
+    const response = await apiClient.get<PaginatedResponse<AuditEntry>>("/audit-logs", { params })
+    return response.data
+  },
+
+  getEntityHistory: async (entityType: AuditEntityType, entityId: string): Promise<AuditEntry[]> => {
+    const response = await auditAPI.getAuditLogs({ entityType, entityId, limit: 50, sort: "-createdAt" })
+    return response.data.items ?? []
+  },
+}
@@ -0,0 +1,51 @@
+export type AuditEntityType = "order" | "product" | "category" | "ingredient" | "user"
+export type AuditAction = "create" | "update" | "delete" | "refund"
+
+export const AUDIT_ENTITY_TYPES = ["order", "product", "category", "ingredient", "user"] as const satisfies readonly AuditEntityType[]
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  order: "Order",
+  product: "Product",
+  category: "Category",
+  ingredient: "Ingredient",
+  user: "Customer",
+}
+
+export interface AuditChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface AuditEntry {
+  _id: string
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  /** Human name at the time of the change, so deleted entities still read well */
+  entityLabel?: string
+  /** Stamped by the backend from the bearer token, never sent by the client */
+  actor?: { _id: string; name: string; email: string; role?: string }
+  changes: AuditChange[]
+  createdAt: string
+}
+
+// Populated refs ({ _id, name }) display as their id
+function normalize(value: unknown): unknown {
+  if (value && typeof value === "object" && !Array.isArray(value) && "_id" in value) {
+    return (value as { _id: unknown })._id
+  }
+  return value
+}
+
+/** Short display form of a recorded value */
+export function formatAuditValue(value: unknown): string {
+  if (value == null || value === "") return "—"
+  if (typeof value === "object") {
+    const normalized = normalize(value)
+    if (typeof normalized !== "object") return String(normalized)
+    const text = JSON.stringify(value)
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text
+  }
+  return String(value)
+}
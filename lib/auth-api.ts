@@ -1,10 +1,32 @@
 // lib/auth-api.ts
 import apiClient from "./api"
-import type { AuthResponse } from "./types"
+import type { ApiResponse, AuthResponse } from "./types"
+import type { AuthSession } from "./sessions"
+import type { TwoFactorChallenge, TwoFactorMethod, TwoFactorSetup, TwoFactorStatus } from "./two-factor"
+
+/** Accounts with two-factor on get a challenge instead of tokens, unless the device is trusted */
+export type LoginResponse =
+  | AuthResponse
+  | ApiResponse<TwoFactorChallenge & { twoFactorRequired: true }>
+
+export type LoginVerification = {
+  challengeToken: string
+  /** Set when `otp` is a recovery code rather than a verification code */
+  recovery?: boolean
+  rememberDevice?: boolean
+}
 
 export const authAPI = {
-  login: async (email: string, password: string): Promise<AuthResponse> => {
-    const response = await apiClient.post("/auth/login", { email, password })
+  login: async (email: string, password: string, deviceToken?: string): Promise<LoginResponse> => {
+    const response = await apiClient.post("/auth/login", { email, password, deviceToken })
+    return response.data
+  },
+
+  // The backend may or may not rotate the refresh token; keep the old one if it doesn't
+  refreshToken: async (
+    refreshToken: string,
+  ): Promise<ApiResponse<{ accessToken: string; refreshToken?: string }>> => {
+    const response = await apiClient.post("/auth/refresh-token", { refreshToken })
     return response.data
   },
 
@@ -13,8 +35,19 @@ export const authAPI = {
     return response.data
   },
 
-  verifyOTP: async (email: string, otp: string) => {
-    const response = await apiClient.post("/auth/verify-otp", { email, otp })
+  // Without `login` this checks a password-reset code; with it, it completes a two-factor sign-in
+  verifyOTP: async (
+    email: string,
+    otp: string,
+    login?: LoginVerification,
+  ): Promise<AuthResponse & { data: { deviceToken?: string } }> => {
+    const response = await apiClient.post("/auth/verify-otp", { email, otp, ...login })
+    return response.data
+  },
+
+  // Email-OTP only: sends a fresh code for a pending challenge
+  resendLoginOTP: async (challengeToken: string) => {
+    const response = await apiClient.post("/auth/2fa/resend", { challengeToken })
     return response.data
   },
 
@@ -27,13 +60,58 @@ export const authAPI = {
     return response.data
   },
 
-  changePassword: async (
-    data: { currentPassword: string; newPassword: string },
-    accessToken?: string,
-  ) => {
-    const response = await apiClient.post("/auth/change-password", data, {
-      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
-    })
+  // `signOutOtherSessions` revokes every session except this one once the password changes
+  changePassword: async (data: {
+    currentPassword: string
+    newPassword: string
+    signOutOtherSessions?: boolean
+  }) => {
+    const response = await apiClient.post("/auth/change-password", data)
+    return response.data
+  },
+
+  getSessions: async (): Promise<AuthSession[]> => {
+    const response = await apiClient.get<ApiResponse<AuthSession[]>>("/auth/sessions")
+    return response.data.data
+  },
+
+  revokeSession: async (id: string) => {
+    const response = await apiClient.delete(`/auth/sessions/${id}`)
+    return response.data
+  },
+
+  // Includes this session unless `keepCurrent` is set
+  revokeAllSessions: async (keepCurrent = false) => {
+    const response = await apiClient.post("/auth/sessions/revoke-all", { keepCurrent })
+    return response.data
+  },
+
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await apiClient.get<ApiResponse<TwoFactorStatus>>("/auth/2fa")
+    return response.data.data
+  },
+
+  // Starts enrolment: returns the TOTP secret, or emails a code for the email method
+  setupTwoFactor: async (method: TwoFactorMethod): Promise<TwoFactorSetup> => {
+    const response = await apiClient.post<ApiResponse<TwoFactorSetup>>("/auth/2fa/setup", { method })
+    return response.data.data
+  },
+
+  enableTwoFactor: async (otp: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>("/auth/2fa/enable", { otp })
+    return response.data.data
+  },
+
+  regenerateRecoveryCodes: async (otp: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>(
+      "/auth/2fa/recovery-codes",
+      { otp },
+    )
+    return response.data.data
+  },
+
+  disableTwoFactor: async (otp: string) => {
+    const response = await apiClient.post("/auth/2fa/disable", { otp })
     return response.data
   },
 }
@@ -0,0 +1,169 @@
+import "server-only"
+import type { NextAuthOptions } from "next-auth"
+import CredentialsProvider from "next-auth/providers/credentials"
+import type { JWT } from "next-auth/jwt"
+import { authAPI } from "@/lib/auth-api"
+import type { AuthResponse } from "@/lib/types"
+import { encodeTwoFactorChallenge, TRUSTED_DEVICE_COOKIE, TRUSTED_DEVICE_DAYS } from "@/lib/two-factor"
+
+// Refresh a minute early so a request in flight doesn't race the expiry
+const REFRESH_MARGIN_MS = 60 * 1000
+// Used when the access token isn't a JWT we can read an `exp` from
+const FALLBACK_TTL_MS = 15 * 60 * 1000
+
+function accessTokenExpiry(accessToken: string) {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split(".")[1], "base64url").toString())
+    if (typeof payload.exp === "number") return payload.exp * 1000
+  } catch {
+    // opaque token
+  }
+  return Date.now() + FALLBACK_TTL_MS
+}
+
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  if (!token.refreshToken) return { ...token, error: "RefreshAccessTokenError" }
+
+  try {
+    const response = await authAPI.refreshToken(token.refreshToken)
+    if (!response.success || !response.data?.accessToken) throw new Error(response.message)
+
+    return {
+      ...token,
+      accessToken: response.data.accessToken,
+      accessTokenExpires: accessTokenExpiry(response.data.accessToken),
+      refreshToken: response.data.refreshToken ?? token.refreshToken,
+      error: undefined,
+    }
+  } catch (error) {
+    console.error("Failed to refresh access token", error)
+    return { ...token, error: "RefreshAccessTokenError" }
+  }
+}
+
+function toSessionUser(response: AuthResponse) {
+  return {
+    id: response.data.user.id,
+    email: response.data.user.email,
+    name: response.data.user.name,
+    role: response.data.user.role,
+    accessToken: response.data.accessToken,
+    refreshToken: response.data.refreshToken,
+  }
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    CredentialsProvider({
+      name: "Credentials",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" },
+        // second step, sent only after the first attempt came back with a challenge
+        otp: { label: "Code", type: "text" },
+        challengeToken: { label: "Challenge", type: "text" },
+        recovery: { label: "Recovery code", type: "text" },
+        rememberDevice: { label: "Remember this device", type: "text" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email) {
+          throw new Error("Invalid credentials")
+        }
+
+        // read here, inside the request, so nothing outside the sign-in handler loads next/headers
+        const { cookies } = await import("next/headers")
+        const cookieStore = await cookies()
+
+        if (credentials.challengeToken) {
+          let response: Awaited<ReturnType<typeof authAPI.verifyOTP>>
+          try {
+            response = await authAPI.verifyOTP(credentials.email, credentials.otp ?? "", {
+              challengeToken: credentials.challengeToken,
+              recovery: credentials.recovery === "true",
+              rememberDevice: credentials.rememberDevice === "true",
+            })
+          } catch {
+            throw new Error("Invalid or expired code")
+          }
+
+          if (!response.success || !response.data.user) throw new Error("Invalid or expired code")
+
+          if (response.data.deviceToken) {
+            cookieStore.set(TRUSTED_DEVICE_COOKIE, response.data.deviceToken, {
+              httpOnly: true,
+              sameSite: "lax",
+              secure: process.env.NODE_ENV === "production",
+              path: "/",
+              maxAge: TRUSTED_DEVICE_DAYS * 24 * 60 * 60,
+            })
+          }
+          return toSessionUser(response)
+        }
+
+        if (!credentials.password) {
+          throw new Error("Invalid credentials")
+        }
+
+        let response: Awaited<ReturnType<typeof authAPI.login>>
+        try {
+          const deviceToken = cookieStore.get(TRUSTED_DEVICE_COOKIE)?.value
+          response = await authAPI.login(credentials.email, credentials.password, deviceToken)
+        } catch {
+          throw new Error("Invalid email or password")
+        }
+
+        if (response.success && "twoFactorRequired" in response.data) {
+          throw new Error(encodeTwoFactorChallenge(response.data))
+        }
+        if (response.success && "user" in response.data && response.data.user) {
+          return toSessionUser(response as AuthResponse)
+        }
+
+        throw new Error("Invalid email or password")
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user, trigger, session }) {
+      if (user) {
+        token.accessToken = user.accessToken
+        token.refreshToken = user.refreshToken
+        token.accessTokenExpires = accessTokenExpiry(user.accessToken ?? "")
+        token.role = user.role
+        token.id = user.id
+        return token
+      }
+
+      // The client forces a refresh when the backend rejects a token we thought was still valid
+      const forced = trigger === "update" && session?.refresh
+      // The backend already turned this refresh token down; asking again on every session read won't change that
+      if (token.error && !forced) return token
+
+      const expires = token.accessTokenExpires ?? accessTokenExpiry(token.accessToken ?? "")
+      if (!forced && Date.now() < expires - REFRESH_MARGIN_MS) {
+        return token
+      }
+
+      return refreshAccessToken(token)
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.accessToken = token.accessToken
+        session.user.role = token.role
+        session.user.id = token.id
+      }
+      // Lets the client send the user back to login once the refresh token is spent too
+      session.error = token.error
+      return session
+    },
+  },
+  pages: {
+    signIn: "/auth/login",
+    error: "/auth/login",
+  },
+  session: {
+    strategy: "jwt",
+    maxAge: 30 * 24 * 60 * 60, // 30 days
+  },
+  secret: process.env.NEXTAUTH_SECRET,
+}
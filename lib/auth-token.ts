@@ -0,0 +1,73 @@
+type TokenSource = () => Promise<string | null | undefined>
+
+let clientToken: string | null | undefined
+let clientLookup: Promise<string | null> | null = null
+let serverSource: TokenSource | null = null
+const listeners = new Set<() => void>()
+
+/**
+ * Keeps the browser copy of the backend access token in step with the
+ * NextAuth session. Called by `AuthTokenSync` whenever the session changes
+ * and by the refresh flow after a rotation.
+ */
+export function setAccessToken(token: string | null | undefined) {
+  const next = token ?? null
+  if (next === clientToken) return
+  clientToken = next
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Lets long-lived connections (the realtime socket) follow the token as it
+ * rotates. Shaped for `useSyncExternalStore` together with
+ * `peekAccessToken`; returns the unsubscribe function.
+ */
+export function subscribeAccessToken(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** The browser's current token without a session lookup; null until known. */
+export function peekAccessToken(): string | null {
+  return clientToken ?? null
+}
+
+/**
+ * Registered by `lib/server-session.ts` when it loads. That module is
+ * server-only, so nothing here may import it: the server layouts that call
+ * the API import it instead.
+ */
+export function setServerTokenSource(source: TokenSource) {
+  serverSource = source
+}
+
+/**
+ * The one place API modules get the bearer token from: the NextAuth session,
+ * via `getSession()` in the browser (looked up once, then kept in sync) and
+ * via `getServerSession()` on the server.
+ */
+export async function getAccessToken(): Promise<string | null> {
+  if (typeof window === "undefined") {
+    if (!serverSource) {
+      console.warn("API call on the server without a token source; import lib/server-session first")
+      return null
+    }
+    return (await serverSource()) ?? null
+  }
+
+  if (clientToken !== undefined) return clientToken
+
+  clientLookup ??= (async () => {
+    const { getSession } = await import("next-auth/react")
+    const session = await getSession()
+    // the session may have arrived through setAccessToken while we waited
+    if (clientToken === undefined) setAccessToken(session?.user?.accessToken)
+    return clientToken ?? null
+  })().finally(() => {
+    clientLookup = null
+  })
+
+  return clientLookup
+}
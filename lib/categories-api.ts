@@ -1,5 +1,5 @@
 import apiClient from "./api"
-import type { Category } from "./types"
+import type { ApiResponse, Category } from "./types"
 
 export type CategoryQueryParams = {
   page?: number
@@ -29,6 +29,11 @@ export const categoriesAPI = {
     return response.data.data
   },
 
+  getCategoryById: async (id: string): Promise<Category> => {
+    const response = await apiClient.get<ApiResponse<Category>>(`/categories/${id}`)
+    return response.data.data
+  },
+
   createCategory: async (data: FormData) => {
     const response = await apiClient.post("/categories", data, {
       headers: { "Content-Type": "multipart/form-data" },
@@ -1,4 +1,7 @@
 // lib/chat-api.ts
+import { getAccessToken } from "./auth-token"
+import { refreshSession } from "./session-refresh"
+
 export interface Participant {
   _id: string
   name: string
@@ -38,14 +41,21 @@ interface ApiResponse<T> {
 const BASE = `${process.env.NEXT_PUBLIC_BASE_URL}/chat`
 
 async function apiFetch<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
-  // Get the token from NextAuth session
-  const { getSession } = await import("next-auth/react")
-  const session = await getSession()
-  const token = (session?.user as any)?.accessToken
+  const token = await getAccessToken()
+
+  const res = await send(input, init, token)
+
+  // Expired token: rotate it once and replay the request
+  if (res.status === 401) {
+    const fresh = await refreshSession()
+    if (fresh) return parse<T>(await send(input, init, fresh))
+  }
 
-  console.log("[v0] Chat API - Session data:", { hasSession: !!session, hasToken: !!token })
+  return parse<T>(res)
+}
 
-  const res = await fetch(input, {
+function send(input: RequestInfo, init: RequestInit | undefined, token: string | null) {
+  return fetch(input, {
     ...init,
     headers: {
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
@@ -53,7 +63,9 @@ async function apiFetch<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
     },
     credentials: "include",
   })
+}
 
+async function parse<T>(res: Response): Promise<T> {
   if (!res.ok) {
     const errorText = await res.text()
     console.error("[v0] Chat API - Request failed:", { status: res.status, error: errorText })
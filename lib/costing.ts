@@ -0,0 +1,170 @@
+import { lineUnitPrice } from "./product-options"
+import type { Category, Ingredient, IngredientUnit, Order, Product, RecipeLine } from "./types"
+
+export const INGREDIENT_UNITS = ["g", "kg", "ml", "l", "each"] as const satisfies readonly IngredientUnit[]
+
+export const UNIT_LABELS: Record<IngredientUnit, string> = {
+  g: "gram",
+  kg: "kilogram",
+  ml: "millilitre",
+  l: "litre",
+  each: "each",
+}
+
+/** Ingredient prices and product recipes, looked up by id */
+export type CostBook = {
+  ingredients: Map<string, Ingredient>
+  recipes: Map<string, RecipeLine[]>
+}
+
+/**
+ * Order lines carry a copy of the product that may predate its recipe, so
+ * costs are always taken from the current catalogue and ingredient library.
+ */
+export function buildCostBook(products: Product[], library: Ingredient[]): CostBook {
+  return {
+    ingredients: new Map(library.map((ingredient) => [ingredient._id, ingredient])),
+    recipes: new Map(products.filter((p) => p.recipe?.length).map((p) => [p._id, p.recipe!])),
+  }
+}
+
+export function recipeIngredientId(line: RecipeLine) {
+  return typeof line.ingredient === "string" ? line.ingredient : line.ingredient._id
+}
+
+export type ProductCost = {
+  /** Cost of one unit from the ingredients that have a price */
+  cost: number
+  /** False when a recipe ingredient has no unit cost, so `cost` is a lower bound */
+  complete: boolean
+}
+
+/** Ingredient cost of one unit of the product, or null when it has no recipe */
+export function productCost(product: Pick<Product, "_id" | "recipe">, book: CostBook): ProductCost | null {
+  const recipe = book.recipes.get(product._id) ?? product.recipe
+  if (!recipe?.length) return null
+
+  let cost = 0
+  let complete = true
+  for (const line of recipe) {
+    const ingredient =
+      book.ingredients.get(recipeIngredientId(line)) ?? (typeof line.ingredient === "object" ? line.ingredient : undefined)
+    if (typeof ingredient?.unitCost !== "number") {
+      complete = false
+      continue
+    }
+    cost += ingredient.unitCost * Number(line.quantity ?? 0)
+  }
+  return { cost, complete }
+}
+
+export type Margin = {
+  revenue: number
+  cost: number
+  margin: number
+  /** margin / revenue, or null when there's no revenue to divide by */
+  ratio: number | null
+}
+
+export function toMargin(revenue: number, cost: number): Margin {
+  const margin = revenue - cost
+  return { revenue, cost, margin, ratio: revenue > 0 ? margin / revenue : null }
+}
+
+/** Margin on one unit sold at the list price */
+export function productMargin(product: Pick<Product, "_id" | "recipe" | "price">, book: CostBook) {
+  const cost = productCost(product, book)
+  if (!cost) return null
+  return { ...toMargin(Number(product.price ?? 0), cost.cost), complete: cost.complete }
+}
+
+export type OrderCosting = Margin & {
+  /** Revenue from lines whose product has no recipe; left out of the margin */
+  uncostedRevenue: number
+  complete: boolean
+}
+
+/**
+ * Margin on what the customer paid per line, options included. Chosen options
+ * have no recipe of their own, so their price counts as margin.
+ */
+export function orderCosting(order: Pick<Order, "items">, book: CostBook): OrderCosting {
+  let revenue = 0
+  let cost = 0
+  let uncostedRevenue = 0
+  let complete = true
+
+  for (const row of order.items ?? []) {
+    const qty = Number(row.quantity ?? 0)
+    const lineRevenue = lineUnitPrice(row) * qty
+    const unit = row.item?._id ? productCost(row.item, book) : null
+    if (!unit) {
+      uncostedRevenue += lineRevenue
+      continue
+    }
+    revenue += lineRevenue
+    cost += unit.cost * qty
+    if (!unit.complete) complete = false
+  }
+
+  return { ...toMargin(revenue, cost), uncostedRevenue, complete: complete && uncostedRevenue === 0 }
+}
+
+export type CategoryMargin = Margin & {
+  categoryId: string
+  categoryName: string
+  units: number
+  uncostedRevenue: number
+}
+
+const UNCATEGORIZED = "uncategorized"
+
+/** Sales margin per category over the given orders; cancelled orders are skipped */
+export function marginByCategory(orders: Order[], categories: Category[], book: CostBook): CategoryMargin[] {
+  const categoryById = new Map(categories.map((c) => [c._id, c]))
+  const rows = new Map<string, { name: string; units: number; revenue: number; cost: number; uncosted: number }>()
+
+  for (const order of orders) {
+    if (order.status === "Cancelled") continue
+    for (const row of order.items ?? []) {
+      const product = row.item
+      if (!product?._id) continue
+
+      const categoryId = !product.category
+        ? UNCATEGORIZED
+        : typeof product.category === "string"
+          ? product.category
+          : product.category._id
+      const populated = typeof product.category === "object" ? product.category : undefined
+      const entry = rows.get(categoryId) ?? {
+        name: categoryById.get(categoryId)?.name ?? populated?.name ?? "Uncategorized",
+        units: 0,
+        revenue: 0,
+        cost: 0,
+        uncosted: 0,
+      }
+
+      const qty = Number(row.quantity ?? 0)
+      const lineRevenue = lineUnitPrice(row) * qty
+      const unit = productCost(product, book)
+      entry.units += qty
+      if (unit) {
+        entry.revenue += lineRevenue
+        entry.cost += unit.cost * qty
+      } else {
+        entry.uncosted += lineRevenue
+      }
+      rows.set(categoryId, entry)
+    }
+  }
+
+  return [...rows.entries()]
+    .map(([categoryId, entry]) => ({
+      categoryId,
+      categoryName: entry.name,
+      units: entry.units,
+      uncostedRevenue: entry.uncosted,
+      ...toMargin(entry.revenue, entry.cost),
+    }))
+    .sort((a, b) => b.margin - a.margin)
+}
@@ -1,10 +1,21 @@
 import apiClient from "./api"
+import type { BackendTimeRange } from "./date-range"
+
+export type DashboardOverviewParams = {
+  timeRange?: BackendTimeRange
+  /** ISO timestamps; take precedence over timeRange */
+  from?: string
+  to?: string
+}
 
 export type DashboardOverviewAPIResponse = {
   stats: {
     totalCustomers: number
     totalDelivered: number
+    /** Gross takings, before refunds */
     totalRevenue: number
+    /** Refunds issued in the range (absent on older backends) */
+    totalRefunds?: number
     totalOrders: number
   }
   charts: {
@@ -12,6 +23,7 @@ export type DashboardOverviewAPIResponse = {
       name: string
       orders: number
       revenue: number
+      refunds?: number
     }>
   }
   recentOrders: Array<{
@@ -25,8 +37,11 @@ export type DashboardOverviewAPIResponse = {
 }
 
 export const dashbordOverviewAPI = {
-  getDashboardOverview: async (timeRange: "day" | "week" | "month" | "year" | "all" = "week"): Promise<DashboardOverviewAPIResponse> => {
-    const response = await apiClient.get("/dashboard/overview", { params: { timeRange } })
+  getDashboardOverview: async (
+    params: DashboardOverviewParams = { timeRange: "week" },
+  ): Promise<DashboardOverviewAPIResponse> => {
+    const { timeRange, from, to } = params
+    const response = await apiClient.get("/dashboard/overview", { params: { timeRange, from, to } })
     return response.data.data
   },
 }
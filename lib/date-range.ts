@@ -0,0 +1,149 @@
+import {
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+} from "date-fns"
+
+/** What the backend understands natively; it also decides chart bucketing */
+export type BackendTimeRange = "day" | "week" | "month" | "year" | "all"
+
+export const DATE_RANGE_PRESETS = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today" },
+  { value: "yesterday", label: "Yesterday" },
+  { value: "thisWeek", label: "This week" },
+  { value: "last7", label: "Last 7 days" },
+  { value: "last30", label: "Last 30 days" },
+  { value: "thisMonth", label: "This month" },
+  { value: "lastMonth", label: "Last month" },
+  { value: "thisQuarter", label: "This quarter" },
+  { value: "lastQuarter", label: "Last quarter" },
+  { value: "thisYear", label: "This year" },
+] as const
+
+export type DateRangePreset = (typeof DATE_RANGE_PRESETS)[number]["value"]
+
+/** Either a named preset or a custom inclusive range of calendar days (yyyy-MM-dd) */
+export type DateRangeValue = { preset: DateRangePreset } | { from: string; to: string }
+
+/** Presets the backend already has a timeRange for; sent as-is so charts keep their buckets */
+const BACKEND_EQUIVALENT: Partial<Record<DateRangePreset, BackendTimeRange>> = {
+  all: "all",
+  today: "day",
+  thisWeek: "week",
+  thisMonth: "month",
+  thisYear: "year",
+}
+
+const DAY_FORMAT = "yyyy-MM-dd"
+
+export function isPreset(value: string): value is DateRangePreset {
+  return DATE_RANGE_PRESETS.some((p) => p.value === value)
+}
+
+function isDay(value: string | null | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+}
+
+export function resolvePreset(preset: DateRangePreset, now = new Date()): { from: Date; to: Date } | null {
+  switch (preset) {
+    case "all":
+      return null
+    case "today":
+      return { from: startOfDay(now), to: endOfDay(now) }
+    case "yesterday": {
+      const d = subDays(now, 1)
+      return { from: startOfDay(d), to: endOfDay(d) }
+    }
+    case "thisWeek":
+      return { from: startOfWeek(now, { weekStartsOn: 1 }), to: endOfDay(now) }
+    case "last7":
+      return { from: startOfDay(subDays(now, 6)), to: endOfDay(now) }
+    case "last30":
+      return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) }
+    case "thisMonth":
+      return { from: startOfMonth(now), to: endOfDay(now) }
+    case "lastMonth": {
+      const d = subMonths(now, 1)
+      return { from: startOfMonth(d), to: endOfMonth(d) }
+    }
+    case "thisQuarter":
+      return { from: startOfQuarter(now), to: endOfDay(now) }
+    case "lastQuarter": {
+      const d = subQuarters(now, 1)
+      return { from: startOfQuarter(d), to: endOfQuarter(d) }
+    }
+    case "thisYear":
+      return { from: startOfYear(now), to: endOfDay(now) }
+  }
+}
+
+/** Concrete bounds for a value, or null for "all time" */
+export function resolveDateRange(value: DateRangeValue): { from: Date; to: Date } | null {
+  if ("preset" in value) return resolvePreset(value.preset)
+  return { from: startOfDay(parseISO(value.from)), to: endOfDay(parseISO(value.to)) }
+}
+
+/** Query params for `/orders` and `/dashboard/overview` */
+export function toRangeParams(value: DateRangeValue): { timeRange?: BackendTimeRange; from?: string; to?: string } {
+  if ("preset" in value) {
+    const native = BACKEND_EQUIVALENT[value.preset]
+    if (native) return { timeRange: native }
+  }
+  const range = resolveDateRange(value)
+  return range ? { from: range.from.toISOString(), to: range.to.toISOString() } : {}
+}
+
+export function dateRangeLabel(value: DateRangeValue) {
+  if ("preset" in value) return DATE_RANGE_PRESETS.find((p) => p.value === value.preset)?.label ?? ""
+  const from = parseISO(value.from)
+  const to = parseISO(value.to)
+  return value.from === value.to
+    ? format(from, "dd MMM yyyy")
+    : `${format(from, "dd MMM yyyy")} – ${format(to, "dd MMM yyyy")}`
+}
+
+export function isSameDateRange(a: DateRangeValue, b: DateRangeValue) {
+  if ("preset" in a || "preset" in b) return "preset" in a && "preset" in b && a.preset === b.preset
+  return a.from === b.from && a.to === b.to
+}
+
+export function toDay(date: Date) {
+  return format(date, DAY_FORMAT)
+}
+
+// URL shape: ?range=last7  or  ?from=2025-01-01&to=2025-01-31
+
+export function parseDateRange(params: { get(name: string): string | null }): DateRangeValue | null {
+  const range = params.get("range")
+  if (range && isPreset(range)) return { preset: range }
+
+  const from = params.get("from")
+  const to = params.get("to")
+  if (isDay(from) && isDay(to)) return from <= to ? { from, to } : { from: to, to: from }
+
+  return null
+}
+
+export function writeDateRange(params: URLSearchParams, value: DateRangeValue | null) {
+  params.delete("range")
+  params.delete("from")
+  params.delete("to")
+  if (!value) return
+  if ("preset" in value) params.set("range", value.preset)
+  else {
+    params.set("from", value.from)
+    params.set("to", value.to)
+  }
+}
@@ -0,0 +1,213 @@
+import { format } from "date-fns"
+import { fetchAllPages } from "./api"
+import { ordersAPI, type OrderQueryParams } from "./orders-api"
+import { usersAPI, type UsersQueryParams } from "./users-api"
+import { currencyAffixes, type MoneyFormat } from "./format"
+import { describeSelectedOptions, lineUnitPrice } from "./product-options"
+import type { Order } from "./types"
+
+export type ExportFormat = "csv" | "xlsx"
+
+export type ExportCell = string | number | Date | null | undefined
+
+export type ExportColumn<T> = {
+  header: string
+  /** money cells are written as numbers with two decimals; date cells as real dates in XLSX */
+  kind?: "text" | "number" | "money" | "date"
+  value: (row: T) => ExportCell
+}
+
+const CSV_DATE_FORMAT = "yyyy-MM-dd HH:mm"
+const XLSX_DATE_FORMAT = "yyyy-mm-dd hh:mm"
+
+// Spreadsheet apps run text starting with these as a formula; customer names and
+// addresses are typed by customers, so such text gets a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/
+
+function neutralizeFormula(text: string) {
+  return FORMULA_START.test(text) ? `'${text}` : text
+}
+
+function formatCsvCell(value: ExportCell, kind: ExportColumn<unknown>["kind"]) {
+  if (value === null || value === undefined || value === "") return ""
+  if (value instanceof Date) return format(value, CSV_DATE_FORMAT)
+  if (kind === "money") return Number(value).toFixed(2)
+  if (typeof value === "number") return String(value)
+  return neutralizeFormula(String(value))
+}
+
+function escapeCsvCell(text: string) {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]) {
+  const lines = [
+    columns.map((c) => escapeCsvCell(neutralizeFormula(c.header))).join(","),
+    ...rows.map((row) => columns.map((c) => escapeCsvCell(formatCsvCell(c.value(row), c.kind))).join(",")),
+  ]
+  return lines.join("\r\n")
+}
+
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // revoking straight away can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000)
+}
+
+// Excel number format with the symbol where the store's locale puts it, e.g. "$"#,##0.00 or #,##0.00" €".
+// Excel shows the separators in the reader's own locale; only the symbol is ours to place.
+function xlsxMoneyFormat(money: MoneyFormat) {
+  const { prefix, suffix } = currencyAffixes(money)
+  const quote = (text: string) => (text ? `"${text.replace(/"/g, "")}"` : "")
+  return `${quote(prefix)}#,##0.00${quote(suffix)}`
+}
+
+async function toXlsx<T>(rows: T[], columns: ExportColumn<T>[], sheetName: string, money: MoneyFormat) {
+  // SheetJS is large; only load it when someone actually exports a spreadsheet
+  const XLSX = await import("xlsx")
+  const moneyFormat = xlsxMoneyFormat(money)
+
+  const data = rows.map((row) =>
+    columns.map((c) => {
+      const value = c.value(row)
+      if (value === null || value === undefined) return ""
+      if (c.kind === "money" || c.kind === "number") return Number(value)
+      return typeof value === "string" ? neutralizeFormula(value) : value
+    }),
+  )
+
+  const headers = columns.map((c) => neutralizeFormula(c.header))
+  const sheet = XLSX.utils.aoa_to_sheet([headers, ...data], { cellDates: true })
+
+  columns.forEach((c, colIdx) => {
+    const z = c.kind === "money" ? moneyFormat : c.kind === "date" ? XLSX_DATE_FORMAT : undefined
+    if (!z) return
+    for (let r = 1; r <= data.length; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c: colIdx })]
+      if (cell && cell.v !== "") cell.z = z
+    }
+  })
+
+  const book = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(book, sheet, sheetName.slice(0, 31))
+  return XLSX.write(book, { bookType: "xlsx", type: "array" }) as ArrayBuffer
+}
+
+/**
+ * `filename` is given without extension; the format decides it. `money` is
+ * the store's pricing settings, used for the currency format of XLSX money cells.
+ */
+export async function exportRows<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  filename: string,
+  fileFormat: ExportFormat,
+  sheetName = "Export",
+  money: MoneyFormat = {},
+) {
+  if (fileFormat === "xlsx") {
+    const buffer = await toXlsx(rows, columns, sheetName, money)
+    downloadFile(buffer, `${filename}.xlsx`, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
+    return
+  }
+
+  // BOM so Excel picks up UTF-8 customer names correctly
+  downloadFile("\uFEFF" + toCsv(rows, columns), `${filename}.csv`, "text/csv;charset=utf-8")
+}
+
+export function exportFileName(prefix: string) {
+  return `${prefix}-${format(new Date(), "yyyy-MM-dd")}`
+}
+
+const toDate = (value?: string) => (value ? new Date(value) : undefined)
+
+export type OrderLine = {
+  order: Order
+  line?: Order["items"][number]
+}
+
+/** One row per order line item; orders without items still get a single row */
+export function orderLines(orders: Order[]): OrderLine[] {
+  return orders.flatMap((order) =>
+    (order.items ?? []).length ? order.items.map((line) => ({ order, line })) : [{ order }],
+  )
+}
+
+export const orderLineColumns: ExportColumn<OrderLine>[] = [
+  { header: "Order ID", value: ({ order }) => String(order._id) },
+  { header: "Date", kind: "date", value: ({ order }) => toDate(order.createdAt) },
+  { header: "Customer", value: ({ order }) => order.user?.name },
+  { header: "Email", value: ({ order }) => order.user?.email },
+  { header: "Phone", value: ({ order }) => order.phone },
+  { header: "Address", value: ({ order }) => order.address },
+  { header: "Fulfilment", value: ({ order }) => (order.pickOrder ? "Pickup" : "Delivery") },
+  { header: "Status", value: ({ order }) => order.status },
+  { header: "Payment Status", value: ({ order }) => order.paymentStatus },
+  {
+    header: "Product",
+    value: ({ line }) => (line ? line.item?.name ?? "Deleted / unavailable product" : undefined),
+  },
+  { header: "Options", value: ({ line }) => (line ? describeSelectedOptions(line.selectedOptions) : undefined) },
+  { header: "Quantity", kind: "number", value: ({ line }) => line?.quantity },
+  { header: "Unit Price", kind: "money", value: ({ line }) => (line ? lineUnitPrice(line) : undefined) },
+  {
+    header: "Line Total",
+    kind: "money",
+    value: ({ line }) => (line ? lineUnitPrice(line) * Number(line.quantity ?? 0) : undefined),
+  },
+  { header: "Order Total", kind: "money", value: ({ order }) => Number(order.totalAmount ?? 0) },
+]
+
+/** The fields of a `/users` list entry the customer export reads */
+export type CustomerRow = {
+  _id: string
+  name?: string
+  email?: string
+  phone?: string
+  createdAt?: string
+  orders?: Pick<Order, "totalAmount">[]
+}
+
+export const customerColumns: ExportColumn<CustomerRow>[] = [
+  { header: "Customer ID", value: (user) => user._id },
+  { header: "Name", value: (user) => user.name },
+  { header: "Email", value: (user) => user.email },
+  { header: "Phone", value: (user) => user.phone },
+  { header: "Total Orders", kind: "number", value: (user) => user.orders?.length ?? 0 },
+  {
+    header: "Total Spent",
+    kind: "money",
+    value: (user) => (user.orders ?? []).reduce((sum, o) => sum + (Number(o?.totalAmount) || 0), 0),
+  },
+  { header: "Joined", kind: "date", value: (user) => toDate(user.createdAt) },
+]
+
+const EXPORT_PAGE_SIZE = 100
+
+/** Exports every order matching `params` (page/limit are ignored), one row per line item */
+export async function exportOrders(
+  params: OrderQueryParams,
+  fileFormat: ExportFormat,
+  money: MoneyFormat,
+  prefix = "orders",
+) {
+  const orders = await ordersAPI.getAllOrders(params, EXPORT_PAGE_SIZE)
+  await exportRows(orderLines(orders), orderLineColumns, exportFileName(prefix), fileFormat, "Orders", money)
+  return orders.length
+}
+
+export async function exportCustomers(params: UsersQueryParams, fileFormat: ExportFormat, money: MoneyFormat) {
+  const users = await fetchAllPages<CustomerRow>(async (page) => {
+    const res = await usersAPI.getUsers({ ...params, page, limit: EXPORT_PAGE_SIZE }, EXPORT_PAGE_SIZE)
+    return { items: res.data?.users ?? [], pages: res.data?.pages ?? 1 }
+  })
+  await exportRows(users, customerColumns, exportFileName("customers"), fileFormat, "Customers", money)
+  return users.length
+}
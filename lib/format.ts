@@ -0,0 +1,91 @@
+export const DEFAULT_CURRENCY = "USD"
+export const DEFAULT_LOCALE = "en-US"
+
+/** The store's pricing settings satisfy this, so they can be passed as-is */
+export type MoneyFormat = {
+  currency?: string
+  locale?: string
+}
+
+type NumberLike = number | string | null | undefined
+
+// Intl.NumberFormat is slow to construct and these run for every table cell
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function formatter(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  const key = `${locale ?? DEFAULT_LOCALE}|${JSON.stringify(options)}`
+  let cached = formatters.get(key)
+  if (!cached) {
+    try {
+      cached = new Intl.NumberFormat(locale || DEFAULT_LOCALE, options)
+    } catch {
+      // unknown locale or currency code saved by an older client
+      cached = new Intl.NumberFormat(DEFAULT_LOCALE, options.currency ? { ...options, currency: DEFAULT_CURRENCY } : options)
+    }
+    formatters.set(key, cached)
+  }
+  return cached
+}
+
+const toNumber = (value: NumberLike) => Number(value) || 0
+
+/** "$1,234.50", "1.234,50 €", "CHF 1’234.50" */
+export function formatMoney(amount: NumberLike, { currency, locale }: MoneyFormat = {}) {
+  return formatter(locale, { style: "currency", currency: currency || DEFAULT_CURRENCY }).format(toNumber(amount))
+}
+
+/** Short form for chart axes: "$1.2K" */
+export function formatCompactMoney(amount: NumberLike, { currency, locale }: MoneyFormat = {}) {
+  return formatter(locale, {
+    style: "currency",
+    currency: currency || DEFAULT_CURRENCY,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(toNumber(amount))
+}
+
+/** Ingredient prices per gram or millilitre need more than cents: "$0.0042" */
+export function formatUnitCost(amount: NumberLike, { currency, locale }: MoneyFormat = {}) {
+  return formatter(locale, {
+    style: "currency",
+    currency: currency || DEFAULT_CURRENCY,
+    maximumFractionDigits: 4,
+  }).format(toNumber(amount))
+}
+
+/** A 0–1 ratio as "42.5%" */
+export function formatPercent(ratio: NumberLike, locale?: string) {
+  return formatter(locale, { style: "percent", maximumFractionDigits: 1 }).format(toNumber(ratio))
+}
+
+/** Counts and quantities with the locale's grouping: "12,345" */
+export function formatNumber(value: NumberLike, locale?: string) {
+  return formatter(locale, { maximumFractionDigits: 2 }).format(toNumber(value))
+}
+
+/** The locale's thousands and decimal separators: { group: ".", decimal: "," } for de-DE */
+export function numberSeparators(locale?: string) {
+  const parts = formatter(locale, {}).formatToParts(12345.6)
+  return {
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+  }
+}
+
+/** "€", "CHF", "CA$" — for input labels where the amount is typed separately */
+export function currencySymbol({ currency, locale }: MoneyFormat = {}) {
+  const parts = formatter(locale, { style: "currency", currency: currency || DEFAULT_CURRENCY }).formatToParts(0)
+  return parts.find((part) => part.type === "currency")?.value ?? currency ?? DEFAULT_CURRENCY
+}
+
+/** Text around the amount for this locale, e.g. { prefix: "$" } or { suffix: " €" } */
+export function currencyAffixes({ currency, locale }: MoneyFormat = {}) {
+  const parts = formatter(locale, { style: "currency", currency: currency || DEFAULT_CURRENCY }).formatToParts(1)
+  const affixes = { prefix: "", suffix: "" }
+  let seenAmount = false
+  for (const part of parts) {
+    if (part.type === "currency" || part.type === "literal") affixes[seenAmount ? "suffix" : "prefix"] += part.value
+    else seenAmount = true
+  }
+  return affixes
+}
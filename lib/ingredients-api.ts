@@ -0,0 +1,60 @@
+import apiClient, { fetchAllPages } from "./api"
+import type { Allergen, ApiResponse, Ingredient } from "./types"
+
+export type IngredientQueryParams = {
+  page?: number
+  limit?: number
+  sort?: string
+  name?: string
+  allergen?: Allergen
+}
+
+export type IngredientsListResponse = {
+  total: number
+  page: number
+  pages: number
+  data: Ingredient[]
+}
+
+export const ingredientsAPI = {
+  getIngredients: async (params: IngredientQueryParams = {}): Promise<IngredientsListResponse> => {
+    // Same guard as categoriesAPI: only forward known params
+    const { page, limit = 1000, sort, name, allergen } = params ?? {}
+    const response = await apiClient.get("/ingredients", {
+      params: { page, limit, sort, name, allergen },
+    })
+    return response.data.data
+  },
+
+  /** Walks every page of `getIngredients` for the given filters (page/limit are ignored) */
+  getAllIngredients: (params: IngredientQueryParams = {}, pageSize = 100): Promise<Ingredient[]> =>
+    fetchAllPages(async (page) => {
+      const res = await ingredientsAPI.getIngredients({ ...params, page, limit: pageSize })
+      return { items: res.data ?? [], pages: res.pages ?? 1 }
+    }),
+
+  getIngredientById: async (id: string): Promise<Ingredient> => {
+    const response = await apiClient.get<ApiResponse<Ingredient>>(`/ingredients/${id}`)
+    return response.data.data
+  },
+
+  createIngredient: async (data: FormData): Promise<Ingredient> => {
+    const response = await apiClient.post("/ingredients", data, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+    return response.data.data
+  },
+
+  /** Products reference ingredients by id, so this changes every product that uses it */
+  updateIngredient: async (id: string, data: FormData) => {
+    const response = await apiClient.put(`/ingredients/${id}`, data, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+    return response.data
+  },
+
+  deleteIngredient: async (id: string) => {
+    const response = await apiClient.delete(`/ingredients/${id}`)
+    return response.data
+  },
+}
@@ -0,0 +1,72 @@
+import type { Allergen, Ingredient, Product, ProductIngredient } from "./types"
+
+export const ALLERGENS = ["gluten", "nuts", "dairy", "egg", "soy"] as const satisfies readonly Allergen[]
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: "Gluten",
+  nuts: "Nuts",
+  dairy: "Dairy",
+  egg: "Egg",
+  soy: "Soy",
+}
+
+export const ALLERGEN_BADGE_CLASSES: Record<Allergen, string> = {
+  gluten: "bg-amber-100 text-amber-800",
+  nuts: "bg-orange-100 text-orange-800",
+  dairy: "bg-sky-100 text-sky-800",
+  egg: "bg-yellow-100 text-yellow-800",
+  soy: "bg-lime-100 text-lime-800",
+}
+
+/** Library entries have an id; inline copies from before the library don't */
+export function isLibraryIngredient(ingredient: ProductIngredient): ingredient is Ingredient {
+  return typeof ingredient === "object" && typeof ingredient._id === "string"
+}
+
+/** Inline ingredient saved before the library existed */
+type LegacyIngredient = Exclude<ProductIngredient, string | Ingredient>
+
+function ingredientKey(ingredient: ProductIngredient) {
+  return typeof ingredient === "string" ? ingredient : ingredient._id
+}
+
+/**
+ * A product's ingredients looked up in the library. Bare ids resolve through
+ * `library`; inline copies match a library entry by name so old products pick
+ * up the shared record, and the rest come back as `unmatched` names (and as
+ * the original `legacy` entries, so saving can keep them). Ids the
+ * library doesn't have (not loaded yet, or since deleted) come back as
+ * `unresolvedIds` so saving can send them through untouched.
+ */
+export function resolveProductIngredients(product: Pick<Product, "ingredients">, library: Ingredient[] = []) {
+  const byId = new Map(library.map((ingredient) => [ingredient._id, ingredient]))
+  const byName = new Map(library.map((ingredient) => [ingredient.name.trim().toLowerCase(), ingredient]))
+  const matched = new Map<string, Ingredient>()
+  const unmatched: string[] = []
+  const legacy: LegacyIngredient[] = []
+  const unresolvedIds: string[] = []
+
+  for (const ingredient of product.ingredients ?? []) {
+    const id = ingredientKey(ingredient)
+    const found = id
+      ? byId.get(id) ?? (isLibraryIngredient(ingredient) ? ingredient : undefined)
+      : byName.get((ingredient as { name: string }).name.trim().toLowerCase())
+    if (found) matched.set(found._id, found)
+    else if (id) unresolvedIds.push(id)
+    else if (typeof ingredient === "object" && ingredient.name.trim()) {
+      unmatched.push(ingredient.name.trim())
+      legacy.push(ingredient as LegacyIngredient)
+    }
+  }
+
+  return { ingredients: [...matched.values()], unmatched, legacy, unresolvedIds }
+}
+
+/** Allergens carried by any of the product's ingredients, in the standard order */
+export function productAllergens(product: Pick<Product, "ingredients">, library: Ingredient[] = []): Allergen[] {
+  const found = new Set<Allergen>()
+  for (const ingredient of resolveProductIngredients(product, library).ingredients) {
+    for (const allergen of ingredient.allergens ?? []) found.add(allergen)
+  }
+  return ALLERGENS.filter((allergen) => found.has(allergen))
+}
@@ -0,0 +1,131 @@
+import { format, subDays } from "date-fns"
+import type { Order, Product } from "./types"
+
+export type StockStatus = "out" | "low" | "in" | "untracked"
+
+export const STOCK_STATUSES = ["low", "out"] as const satisfies readonly StockStatus[]
+
+/** Units on hand at or below which a tracked product counts as low */
+export const LOW_STOCK_THRESHOLD = 5
+
+/** Share of the daily bake capacity at which the overview starts warning */
+export const CAPACITY_WARNING_RATIO = 0.8
+
+/** Days of recent orders the consumption figures are based on */
+export const CONSUMPTION_WINDOW_DAYS = 7
+
+export const STOCK_LABELS: Record<StockStatus, string> = {
+  out: "Out of stock",
+  low: "Low stock",
+  in: "In stock",
+  untracked: "Not tracked",
+}
+
+export const STOCK_BADGE_CLASSES: Record<StockStatus, string> = {
+  out: "bg-red-100 text-red-700",
+  low: "bg-orange-100 text-orange-700",
+  in: "bg-green-100 text-green-700",
+  untracked: "bg-gray-100 text-gray-600",
+}
+
+/** The manual toggle wins; otherwise a product is tracked only once it has a stock figure */
+export function stockStatus(product: Pick<Product, "stock" | "outOfStock">): StockStatus {
+  if (product.outOfStock) return "out"
+  if (typeof product.stock !== "number") return "untracked"
+  if (product.stock <= 0) return "out"
+  return product.stock <= LOW_STOCK_THRESHOLD ? "low" : "in"
+}
+
+export type ProductConsumption = {
+  /** Units ordered today */
+  today: number
+  /** Average units per day over the window */
+  dailyAverage: number
+}
+
+/**
+ * Units ordered per product over the last `days` days, from `Order.items`.
+ * Cancelled orders don't consume anything.
+ */
+export function productConsumption(orders: Order[], days = CONSUMPTION_WINDOW_DAYS, now = new Date()) {
+  const today = format(now, "yyyy-MM-dd")
+  const since = format(subDays(now, days - 1), "yyyy-MM-dd")
+  const totals = new Map<string, { today: number; total: number }>()
+
+  for (const order of orders) {
+    if (order.status === "Cancelled") continue
+    const day = format(new Date(order.createdAt), "yyyy-MM-dd")
+    if (day < since || day > today) continue
+
+    for (const row of order.items ?? []) {
+      const id = row.item?._id
+      if (!id) continue
+      const entry = totals.get(id) ?? { today: 0, total: 0 }
+      const qty = Number(row.quantity ?? 0)
+      entry.total += qty
+      if (day === today) entry.today += qty
+      totals.set(id, entry)
+    }
+  }
+
+  const result = new Map<string, ProductConsumption>()
+  totals.forEach((entry, id) => result.set(id, { today: entry.today, dailyAverage: entry.total / days }))
+  return result
+}
+
+export type StockWarning = {
+  product: Product
+  kind: "out" | "low" | "capacity"
+  message: string
+}
+
+const WARNING_ORDER: Record<StockWarning["kind"], number> = { out: 0, capacity: 1, low: 2 }
+
+/**
+ * What the overview flags: products marked or run out of stock, tracked stock
+ * that won't last two more days at the recent pace, and products whose orders
+ * today are close to what the bakery can make in a day.
+ */
+export function stockWarnings(products: Product[], consumption: Map<string, ProductConsumption>): StockWarning[] {
+  const warnings: StockWarning[] = []
+
+  for (const product of products) {
+    const used = consumption.get(product._id)
+    const status = stockStatus(product)
+
+    if (status === "out") {
+      warnings.push({ product, kind: "out", message: "Out of stock" })
+      continue
+    }
+
+    const capacity = Number(product.dailyCapacity ?? 0)
+    if (capacity > 0 && used && used.today >= capacity * CAPACITY_WARNING_RATIO) {
+      warnings.push({
+        product,
+        kind: "capacity",
+        message:
+          used.today >= capacity
+            ? `Daily capacity reached: ${used.today} ordered today, capacity ${capacity}`
+            : `${used.today} of ${capacity} ordered today`,
+      })
+    }
+
+    if (typeof product.stock === "number") {
+      const daysLeft = used?.dailyAverage ? product.stock / used.dailyAverage : Infinity
+      if (status === "low" || daysLeft < 2) {
+        warnings.push({
+          product,
+          kind: "low",
+          message:
+            daysLeft < Infinity
+              ? `${product.stock} left, about ${Math.max(1, Math.floor(daysLeft))} day(s) at the current pace`
+              : `${product.stock} left`,
+        })
+      }
+    }
+  }
+
+  return warnings.sort(
+    (a, b) => WARNING_ORDER[a.kind] - WARNING_ORDER[b.kind] || a.product.name.localeCompare(b.product.name),
+  )
+}
@@ -0,0 +1,51 @@
+import type { NotificationPreferences } from "./settings"
+
+export type NotificationKind = "order" | "payment" | "message" | "stock"
+
+/** Which store setting switches each kind on or off */
+export const NOTIFICATION_PREFERENCES: Record<NotificationKind, Exclude<keyof NotificationPreferences, "dailySummary" | "summaryEmail">> = {
+  order: "newOrders",
+  payment: "failedPayments",
+  message: "messages",
+  stock: "lowStock",
+}
+
+export interface DashboardNotification {
+  /** Stable per source event, so a repeated event doesn't add a duplicate */
+  id: string
+  kind: NotificationKind
+  title: string
+  description?: string
+  /** Where clicking the notification goes */
+  href: string
+  createdAt: string
+  read: boolean
+}
+
+const MAX_NOTIFICATIONS = 100
+
+export function notificationsStorageKey(userId: string) {
+  return `dashboard.notifications.${userId}`
+}
+
+export function loadNotifications(userId: string): DashboardNotification[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(notificationsStorageKey(userId)) ?? "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function saveNotifications(userId: string, notifications: DashboardNotification[]) {
+  localStorage.setItem(notificationsStorageKey(userId), JSON.stringify(notifications.slice(0, MAX_NOTIFICATIONS)))
+}
+
+/** Newest first; an existing id is replaced in place rather than duplicated */
+export function addNotification(
+  list: DashboardNotification[],
+  next: Omit<DashboardNotification, "read" | "createdAt"> & { createdAt?: string },
+): DashboardNotification[] {
+  const entry: DashboardNotification = { read: false, createdAt: new Date().toISOString(), ...next }
+  return [entry, ...list.filter((n) => n.id !== entry.id)].slice(0, MAX_NOTIFICATIONS)
+}
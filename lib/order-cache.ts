@@ -0,0 +1,105 @@
+import type { Query, QueryClient } from "@tanstack/react-query"
+import type { DashboardOverviewAPIResponse, DashboardOverviewParams } from "./dashbord-overview"
+import type { OrderQueryParams } from "./orders-api"
+import type { Order, OrdersPaginatedResponse } from "./types"
+
+// Everything cached under ["orders", ...]: paginated lists, the production
+// sheet's flat Order[] and the single-order detail view.
+type OrdersCacheEntry = OrdersPaginatedResponse | Order[] | Order | undefined
+
+function replaceIn(entry: OrdersCacheEntry, order: Order): OrdersCacheEntry {
+  if (!entry) return entry
+  if (Array.isArray(entry)) return entry.map((o) => (o._id === order._id ? { ...o, ...order } : o))
+  if ("_id" in entry) return entry._id === order._id ? { ...entry, ...order } : entry
+  if (!entry.data?.orders?.some((o) => o._id === order._id)) return entry
+  return {
+    ...entry,
+    data: { ...entry.data, orders: entry.data.orders.map((o) => (o._id === order._id ? { ...o, ...order } : o)) },
+  }
+}
+
+/** First page of the unfiltered, newest-first list: the only one a new order certainly lands on */
+function isNewestFirstPage(params: unknown) {
+  if (!params || typeof params !== "object") return false
+  const p = params as OrderQueryParams
+  return (
+    (p.page ?? 1) === 1 &&
+    (p.sort ?? "-createdAt") === "-createdAt" &&
+    !p.status &&
+    !p.paymentStatus &&
+    !p.search &&
+    !p.user &&
+    !p.from &&
+    !p.to &&
+    (!p.timeRange || p.timeRange === "all")
+  )
+}
+
+/** Backend time ranges all end "now"; custom ranges only count if they reach today */
+function coversNow(params: unknown) {
+  const p = (params ?? {}) as DashboardOverviewParams
+  return !p.to || new Date(p.to).getTime() >= Date.now()
+}
+
+function toRecentOrder(order: Order): DashboardOverviewAPIResponse["recentOrders"][number] {
+  return {
+    id: order._id,
+    orderId: `#${String(order._id).slice(-6)}`,
+    customer: order.user?.name ?? "Unknown",
+    amount: Number(order.totalAmount ?? 0),
+    status: order.status,
+    createdAt: order.createdAt,
+  }
+}
+
+/**
+ * Folds a pushed order into the caches. Lists it can be placed in exactly are
+ * patched in place; every other ["orders"] query is invalidated so it refetches
+ * when next shown.
+ */
+export function applyOrderEvent(queryClient: QueryClient, kind: "created" | "updated", order: Order) {
+  const patched = new Set<string>()
+
+  for (const query of queryClient.getQueryCache().findAll({ queryKey: ["orders"] })) {
+    const entry = query.state.data as OrdersCacheEntry
+    if (!entry) continue
+
+    if (kind === "updated") {
+      const next = replaceIn(entry, order)
+      if (next !== entry) {
+        queryClient.setQueryData(query.queryKey, next)
+        patched.add(query.queryHash)
+      }
+      continue
+    }
+
+    const params = query.queryKey[1]
+    if (!Array.isArray(entry) && !("_id" in entry) && entry.data && isNewestFirstPage(params)) {
+      const orders = [order, ...entry.data.orders.filter((o) => o._id !== order._id)]
+      const limit = (params as OrderQueryParams).limit ?? entry.data.orders.length
+      queryClient.setQueryData<OrdersPaginatedResponse>(query.queryKey, {
+        ...entry,
+        data: { ...entry.data, total: entry.data.total + 1, orders: orders.slice(0, Math.max(limit, 1)) },
+      })
+      patched.add(query.queryHash)
+    }
+  }
+
+  queryClient.invalidateQueries({ queryKey: ["orders"], predicate: (q) => !patched.has(q.queryHash) })
+
+  const overviews = { queryKey: ["dashboard", "overview"], predicate: (q: Query) => coversNow(q.queryKey[2]) }
+  queryClient.setQueriesData<DashboardOverviewAPIResponse>(overviews, (data) => {
+    if (!data) return data
+    if (kind === "updated") {
+      return {
+        ...data,
+        recentOrders: data.recentOrders.map((o) => (o.id === order._id ? toRecentOrder(order) : o)),
+      }
+    }
+    return {
+      ...data,
+      stats: { ...data.stats, totalOrders: data.stats.totalOrders + 1 },
+      recentOrders: [toRecentOrder(order), ...data.recentOrders].slice(0, Math.max(data.recentOrders.length, 1)),
+    }
+  })
+}
@@ -0,0 +1,82 @@
+import type { Order } from "./types"
+
+type OrderStatus = Order["status"]
+type PaymentStatus = Order["paymentStatus"]
+
+export const ORDER_STATUSES = ["Pending", "Processing", "Delivered", "Cancelled"] as const satisfies readonly OrderStatus[]
+export const PAYMENT_STATUSES = ["Paid", "Pending", "Failed", "Refunded"] as const satisfies readonly PaymentStatus[]
+
+/** Legal next states for an order's fulfilment status */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  Pending: ["Processing", "Cancelled"],
+  Processing: ["Delivered", "Cancelled"],
+  Delivered: [],
+  Cancelled: [],
+}
+
+/** Legal next states for an order's payment status */
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  Pending: ["Paid", "Failed"],
+  Failed: ["Pending", "Paid"],
+  Paid: ["Refunded"],
+  Refunded: [],
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "OrderTransitionError"
+  }
+}
+
+export function nextOrderStatuses(current: OrderStatus): readonly OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[current] ?? []
+}
+
+export function nextPaymentStatuses(current: PaymentStatus): readonly PaymentStatus[] {
+  return PAYMENT_STATUS_TRANSITIONS[current] ?? []
+}
+
+export function canTransitionStatus(from: OrderStatus, to: OrderStatus) {
+  return nextOrderStatuses(from).includes(to)
+}
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus) {
+  return nextPaymentStatuses(from).includes(to)
+}
+
+/** A state with no way out; moving into one cannot be undone from the dashboard */
+export function isTerminalStatus(status: OrderStatus) {
+  return nextOrderStatuses(status).length === 0
+}
+
+export function isTerminalPaymentStatus(status: PaymentStatus) {
+  return nextPaymentStatuses(status).length === 0
+}
+
+export type OrderStatusChange = {
+  status?: OrderStatus
+  paymentStatus?: PaymentStatus
+}
+
+export function requiresConfirmation(change: OrderStatusChange) {
+  return (
+    (change.status !== undefined && isTerminalStatus(change.status)) ||
+    (change.paymentStatus !== undefined && isTerminalPaymentStatus(change.paymentStatus))
+  )
+}
+
+/** Throws OrderTransitionError if any part of `change` is not a legal move from `current` */
+export function assertOrderTransition(
+  current: Pick<Order, "status" | "paymentStatus">,
+  change: OrderStatusChange,
+) {
+  if (change.status && !canTransitionStatus(current.status, change.status)) {
+    throw new OrderTransitionError(`Cannot move an order from ${current.status} to ${change.status}`)
+  }
+  if (change.paymentStatus && !canTransitionPayment(current.paymentStatus, change.paymentStatus)) {
+    throw new OrderTransitionError(
+      `Cannot change payment from ${current.paymentStatus} to ${change.paymentStatus}`,
+    )
+  }
+}
@@ -1,4 +1,7 @@
-import apiClient from "./api"
+import apiClient, { fetchAllPages } from "./api"
+import { assertOrderTransition, OrderTransitionError, type OrderStatusChange } from "./order-status"
+import { isRefundable, refundableAmount, type RefundRequest } from "./refunds"
+import type { BackendTimeRange } from "./date-range"
 import type { Order, OrdersPaginatedResponse } from "./types"
 
 export type OrderQueryParams = {
@@ -8,7 +11,15 @@ export type OrderQueryParams = {
   status?: Order["status"]
   paymentStatus?: Order["paymentStatus"]
   user?: string
-  timeRange?: "day" | "week" | "month" | "year" | "all"
+  timeRange?: BackendTimeRange
+  /** ISO timestamps bounding createdAt (inclusive); take precedence over timeRange */
+  from?: string
+  to?: string
+  /** ISO timestamps bounding estimatedDelivery (inclusive), i.e. when the order is due */
+  dueFrom?: string
+  dueTo?: string
+  /** Matches order ID suffix, customer name, email or phone */
+  search?: string
 }
 
 export const ordersAPI = {
@@ -17,16 +28,45 @@ export const ordersAPI = {
     return response.data
   },
 
+  /** Walks every page of `getOrders` for the given filters (page/limit are ignored) */
+  getAllOrders: (params: OrderQueryParams, pageSize = 100): Promise<Order[]> =>
+    fetchAllPages(async (page) => {
+      const res = await ordersAPI.getOrders({ ...params, page, limit: pageSize })
+      return { items: res.data?.orders ?? [], pages: res.data?.pages ?? 1 }
+    }),
+
   getOrderById: async (id: string): Promise<Order> => {
     const response = await apiClient.get<{ success: boolean; message: string; data: Order }>(`/orders/${id}`)
     return response.data.data
   },
 
-  updateOrderStatus: async (id: string, data: { status?: Order["status"]; paymentStatus?: Order["paymentStatus"] }) => {
+  // `current` is the order's state as the caller last saw it; illegal moves are
+  // rejected here so they never reach the backend.
+  updateOrderStatus: async (
+    id: string,
+    data: OrderStatusChange,
+    current: Pick<Order, "status" | "paymentStatus">,
+  ) => {
+    assertOrderTransition(current, data)
     const response = await apiClient.put(`/orders/${id}`, data)
     return response.data
   },
 
+  /**
+   * Full or partial refund. The backend records it in `refunds` and moves
+   * paymentStatus to Refunded once nothing is left to refund.
+   */
+  refundOrder: async (order: Order, data: RefundRequest) => {
+    if (!isRefundable(order)) {
+      throw new OrderTransitionError("Only paid orders with a balance left can be refunded")
+    }
+    if (!(data.amount > 0) || data.amount > refundableAmount(order)) {
+      throw new OrderTransitionError(`Refund must be between 0 and ${refundableAmount(order).toFixed(2)}`)
+    }
+    const response = await apiClient.post(`/orders/${order._id}/refunds`, data)
+    return response.data
+  },
+
   deleteOrder: async (id: string) => {
     const response = await apiClient.delete(`/orders/${id}`)
     return response.data
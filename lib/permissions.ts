@@ -0,0 +1,110 @@
+import type { UserRole } from "./types"
+
+export type Role = "owner" | "manager" | "baker" | "support"
+
+export const ROLES = ["owner", "manager", "baker", "support"] as const satisfies readonly Role[]
+
+export type Permission =
+  | "overview:view"
+  | "orders:view"
+  | "orders:update"
+  | "orders:refund"
+  | "orders:delete"
+  | "production:view"
+  | "customers:view"
+  | "customers:delete"
+  | "messages:view"
+  | "catalog:view"
+  | "catalog:edit"
+  | "catalog:delete"
+  | "costing:view"
+  | "audit:view"
+  | "settings:view"
+  | "settings:manage"
+
+const ALL_PERMISSIONS: Permission[] = [
+  "overview:view",
+  "orders:view",
+  "orders:update",
+  "orders:refund",
+  "orders:delete",
+  "production:view",
+  "customers:view",
+  "customers:delete",
+  "messages:view",
+  "catalog:view",
+  "catalog:edit",
+  "catalog:delete",
+  "costing:view",
+  "audit:view",
+  "settings:view",
+  "settings:manage",
+]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  manager: [
+    "overview:view",
+    "orders:view",
+    "orders:update",
+    "orders:refund",
+    "production:view",
+    "customers:view",
+    "messages:view",
+    "catalog:view",
+    "catalog:edit",
+    "costing:view",
+    "audit:view",
+    "settings:view",
+  ],
+  baker: ["orders:view", "production:view", "catalog:view"],
+  support: ["orders:view", "orders:update", "customers:view", "messages:view"],
+}
+
+// Most specific prefix first; the first match wins. null means any staff role.
+const ROUTE_PERMISSIONS: [prefix: string, permission: Permission | null][] = [
+  ["/dashboard/security", null],
+  ["/dashboard/orders", "orders:view"],
+  ["/dashboard/paid-orders", "orders:view"],
+  ["/dashboard/delivered-orders", "orders:view"],
+  ["/dashboard/production", "production:view"],
+  ["/dashboard/customers", "customers:view"],
+  ["/dashboard/messages", "messages:view"],
+  ["/dashboard/categories", "catalog:view"],
+  ["/dashboard/ingredients", "catalog:view"],
+  ["/dashboard/products", "catalog:view"],
+  ["/dashboard/special-items", "catalog:view"],
+  ["/dashboard/margins", "costing:view"],
+  ["/dashboard/audit-log", "audit:view"],
+  ["/dashboard/settings", "settings:view"],
+  ["/dashboard", "overview:view"],
+]
+
+/** Accounts created before roles existed are "admin"; they keep full access */
+export function toRole(role: UserRole | string | null | undefined): Role | null {
+  if (role === "admin") return "owner"
+  return (ROLES as readonly string[]).includes(role ?? "") ? (role as Role) : null
+}
+
+export function can(role: UserRole | string | null | undefined, permission: Permission) {
+  const resolved = toRole(role)
+  return !!resolved && ROLE_PERMISSIONS[resolved].includes(permission)
+}
+
+function routeRule(pathname: string) {
+  return ROUTE_PERMISSIONS.find(([prefix]) => pathname === prefix || pathname.startsWith(prefix + "/"))
+}
+
+/** Paths outside the dashboard are open; inside it, customers ("user") never get in */
+export function canAccessRoute(role: UserRole | string | null | undefined, pathname: string) {
+  const rule = routeRule(pathname)
+  if (!rule) return true
+  return !!toRole(role) && (rule[1] === null || can(role, rule[1]))
+}
+
+const HOME_ROUTES = ["/dashboard", "/dashboard/orders", "/dashboard/production", "/dashboard/messages"]
+
+/** First page the role may open, so a baker isn't bounced off the overview */
+export function homeRoute(role: UserRole | string | null | undefined) {
+  return HOME_ROUTES.find((route) => canAccessRoute(role, route)) ?? "/403"
+}
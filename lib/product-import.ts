@@ -0,0 +1,294 @@
+import { z } from "zod"
+import type { Category, Product } from "./types"
+import type { ExportColumn } from "./export"
+import { currencySymbol, formatNumber, numberSeparators, type MoneyFormat } from "./format"
+
+export type ImportField =
+  | "id"
+  | "name"
+  | "category"
+  | "price"
+  | "description"
+  | "stock"
+  | "dailyCapacity"
+  | "outOfStock"
+  | "image"
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: "name", label: "Name", required: true, aliases: ["name", "product", "product name", "item", "title"] },
+  { key: "category", label: "Category", required: true, aliases: ["category", "category name", "type"] },
+  { key: "price", label: "Price", required: true, aliases: ["price", "unit price", "cost to customer"] },
+  { key: "description", label: "Description", aliases: ["description", "details", "notes"] },
+  { key: "stock", label: "Stock", aliases: ["stock", "quantity", "qty", "on hand"] },
+  { key: "dailyCapacity", label: "Daily capacity", aliases: ["daily capacity", "capacity", "daily bake capacity"] },
+  { key: "outOfStock", label: "Out of stock", aliases: ["out of stock", "sold out", "unavailable"] },
+  { key: "image", label: "Image URL", aliases: ["image", "image url", "photo", "picture"] },
+  { key: "id", label: "Product ID", aliases: ["id", "_id", "product id"] },
+]
+
+/** Spreadsheet column header for each field; unmapped fields are left out */
+export type ImportMapping = Partial<Record<ImportField, string>>
+
+/** Numbers from numeric Excel cells; everything else as text */
+export type SheetCell = string | number
+
+export type SpreadsheetRows = {
+  headers: string[]
+  /** Non-blank rows with their line in the sheet; cells keyed by header */
+  rows: { line: number; cells: Record<string, SheetCell> }[]
+}
+
+const toCell = (value: unknown): SheetCell => (typeof value === "number" ? value : String(value ?? "").trim())
+
+/**
+ * Reads the first sheet of a CSV or Excel file; SheetJS handles both. Excel
+ * numbers come through as stored, not as their formatted text ("€3.50"), and
+ * CSV cells stay text so `planImport` reads them in the store's locale rather
+ * than SheetJS guessing ("3,50" is not 350).
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  const XLSX = await import("xlsx")
+  const book = file.name.toLowerCase().endsWith(".csv")
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" })
+  const sheet = book.Sheets[book.SheetNames[0]]
+  if (!sheet) return { headers: [], rows: [] }
+
+  const [headerRow = [], ...body] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "" })
+  const headers = headerRow.map((cell) => String(cell ?? "").trim())
+  const rows = body
+    .map((cells, index) => ({
+      // the header is line 1
+      line: index + 2,
+      cells: Object.fromEntries(headers.map((header, i) => [header, toCell(cells[i])])),
+    }))
+    .filter((row) => Object.values(row.cells).some((cell) => cell !== ""))
+
+  return { headers: headers.filter(Boolean), rows }
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[_\-]+/g, " ").replace(/\s+/g, " ").trim()
+
+/** Matches headers to fields by common names, e.g. "Product Name" → name */
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {}
+  for (const field of IMPORT_FIELDS) {
+    const header = headers.find((h) => field.aliases.includes(normalize(h)))
+    if (header) mapping[field.key] = header
+  }
+  return mapping
+}
+
+// Blank cells mean "not given": left unset on create and unchanged on update
+const blank = (value: unknown) => (typeof value === "string" && value.trim() === "" ? undefined : value)
+const asText = (value: unknown) => blank(typeof value === "number" ? String(value) : value)
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * A number typed as text, read with the store locale's separators. Currency
+ * symbols and spaces are ignored. A lone thousands separator that could just
+ * as well be a decimal point ("1.500" in de-DE, "1,500" in en-US) is
+ * `ambiguous` rather than guessed at.
+ */
+function parseSheetNumber(value: SheetCell, money: MoneyFormat): number | "invalid" | "ambiguous" {
+  if (typeof value === "number") return Number.isFinite(value) ? value : "invalid"
+
+  const { group, decimal } = numberSeparators(money.locale)
+  let cleaned = value
+  for (const symbol of [currencySymbol(money), money.currency].filter(Boolean) as string[]) {
+    cleaned = cleaned.split(symbol).join("")
+  }
+  cleaned = cleaned.replace(/\s/g, "")
+
+  const d = escapeRegExp(decimal)
+  const g = /\s/.test(group) ? "" : escapeRegExp(group)
+  const plain = new RegExp(`^-?\\d+(?:${d}\\d+)?$`)
+  const grouped = g ? new RegExp(`^-?\\d{1,3}(?:${g}\\d{3})+(?:${d}\\d+)?$`) : null
+
+  if (!plain.test(cleaned) && !grouped?.test(cleaned)) return "invalid"
+  if ((group === "." || group === ",") && new RegExp(`^-?\\d{1,3}${g}\\d{3}$`).test(cleaned)) return "ambiguous"
+  return Number(cleaned.split(group).join("").replace(decimal, "."))
+}
+
+function numberCell(label: string, money: MoneyFormat, { required = false, whole = false } = {}) {
+  return z
+    .union([z.string(), z.number()])
+    .optional()
+    .transform((value, ctx) => {
+      const fail = (message: string) => {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+        return z.NEVER
+      }
+
+      const given = blank(value) as SheetCell | undefined
+      if (given === undefined) return required ? fail(`${label} is required`) : undefined
+
+      const parsed = parseSheetNumber(given, money)
+      if (parsed === "invalid") {
+        return fail(`${label} "${given}" isn't a number; write it like ${formatNumber(1234.56, money.locale)}`)
+      }
+      if (parsed === "ambiguous") {
+        return fail(`${label} "${given}" could be read two ways; leave out the thousands separator`)
+      }
+      if (whole && !Number.isInteger(parsed)) return fail(`${label} must be a whole number`)
+      if (parsed < 0) return fail(`${label} can't be negative`)
+      return parsed
+    })
+}
+
+const yesNo = z.preprocess((value) => {
+  const text = typeof value === "string" ? value.trim().toLowerCase() : value
+  if (text === "" || text === undefined) return undefined
+  if (["yes", "y", "true", "1"].includes(String(text))) return true
+  if (["no", "n", "false", "0"].includes(String(text))) return false
+  return text
+}, z.boolean({ invalid_type_error: "Out of stock must be yes or no" }).optional())
+
+/** Row validation; numbers are read in the store's locale (`money`) */
+export const importRowSchema = (money: MoneyFormat) =>
+  z.object({
+    id: z.preprocess(asText, z.string().regex(/^[a-f\d]{24}$/i, "Product ID isn't a valid ID").optional()),
+    name: z.preprocess(asText, z.string({ required_error: "Name is required" }).trim().min(1, "Name is required")),
+    category: z.preprocess(
+      asText,
+      z.string({ required_error: "Category is required" }).trim().min(1, "Category is required"),
+    ),
+    price: numberCell("Price", money, { required: true }),
+    description: z.preprocess(asText, z.string().optional()),
+    stock: numberCell("Stock", money, { whole: true }),
+    dailyCapacity: numberCell("Daily capacity", money, { whole: true }),
+    outOfStock: yesNo,
+    image: z.preprocess(asText, z.string().url("Image URL isn't a valid URL").optional()),
+  })
+
+export type ImportValues = Omit<z.infer<ReturnType<typeof importRowSchema>>, "category"> & { category: string }
+
+export type ImportAction = "create" | "update" | "unchanged" | "error"
+
+export type ImportChange = { field: string; before: unknown; after: unknown }
+
+export type ImportRow = {
+  /** Line in the spreadsheet, counting the header as line 1 */
+  line: number
+  cells: Record<string, SheetCell>
+  action: ImportAction
+  /** Validated values with `category` resolved to an id */
+  values?: ImportValues
+  existing?: Product
+  changes: ImportChange[]
+  errors: string[]
+}
+
+const categoryIdOf = (category: Product["category"]) => (typeof category === "string" ? category : category?._id)
+
+const COMPARED_FIELDS = ["name", "category", "price", "description", "stock", "dailyCapacity", "outOfStock"] as const
+
+function diffProduct(existing: Product, values: ImportValues): ImportChange[] {
+  const before: Record<string, unknown> = {
+    ...existing,
+    category: categoryIdOf(existing.category),
+    outOfStock: !!existing.outOfStock,
+  }
+  return COMPARED_FIELDS.filter((field) => {
+    if (values[field] === undefined) return false
+    // rows match by name case-insensitively, so "lemon tart" isn't a rename of "Lemon Tart"
+    if (field === "name") return normalize(values.name) !== normalize(existing.name)
+    return values[field] !== before[field]
+  }).map((field) => ({ field, before: before[field], after: values[field] }))
+}
+
+/**
+ * Validates every row and decides what it will do. Rows match an existing
+ * product by Product ID when given, otherwise by name (case-insensitive).
+ * Categories are matched by name or id. `money` is the store's pricing
+ * settings, whose locale decides how typed numbers are read.
+ */
+export function planImport(
+  sheet: SpreadsheetRows,
+  mapping: ImportMapping,
+  categories: Category[],
+  products: Product[],
+  money: MoneyFormat,
+): ImportRow[] {
+  const schema = importRowSchema(money)
+  const categoryByKey = new Map<string, Category>()
+  for (const category of categories) {
+    categoryByKey.set(category._id, category)
+    categoryByKey.set(normalize(category.name), category)
+  }
+  const productById = new Map(products.map((p) => [p._id, p]))
+  const productByName = new Map(products.map((p) => [normalize(p.name), p]))
+  const namesSeen = new Map<string, number>()
+
+  return sheet.rows.map(({ line, cells }) => {
+    const raw = Object.fromEntries(
+      IMPORT_FIELDS.map((field) => [field.key, mapping[field.key] ? cells[mapping[field.key]!] : undefined]),
+    )
+    const parsed = schema.safeParse(raw)
+    if (!parsed.success) {
+      return { line, cells, action: "error", changes: [], errors: parsed.error.issues.map((issue) => issue.message) }
+    }
+
+    const errors: string[] = []
+    const category = categoryByKey.get(parsed.data.category) ?? categoryByKey.get(normalize(parsed.data.category))
+    if (!category) errors.push(`Category "${parsed.data.category}" doesn't exist`)
+
+    const nameKey = normalize(parsed.data.name)
+    const firstLine = namesSeen.get(nameKey)
+    if (firstLine) errors.push(`"${parsed.data.name}" is already on line ${firstLine}`)
+    else namesSeen.set(nameKey, line)
+
+    let existing: Product | undefined
+    if (parsed.data.id) {
+      existing = productById.get(parsed.data.id)
+      if (!existing) errors.push("No product has this Product ID")
+    } else {
+      existing = productByName.get(nameKey)
+    }
+
+    if (errors.length || !category) return { line, cells, action: "error", changes: [], errors }
+
+    const values: ImportValues = { ...parsed.data, category: category._id }
+    if (!existing) return { line, cells, action: "create", values, changes: [], errors }
+
+    const changes = diffProduct(existing, values)
+    if (values.image && !(existing.images ?? [existing.image]).includes(values.image)) {
+      changes.push({ field: "image", before: existing.images?.[0] ?? existing.image, after: values.image })
+    }
+    return { line, cells, action: changes.length ? "update" : "unchanged", values, existing, changes, errors }
+  })
+}
+
+/** Multipart body in the shape `ProductDialog` sends; unset fields are left out */
+export function importFormData(values: ImportValues, existing?: Product) {
+  const data = new FormData()
+  data.append("name", values.name)
+  data.append("category", values.category)
+  if (values.price !== undefined) data.append("price", String(values.price))
+  if (values.description !== undefined) data.append("description", values.description)
+  if (values.stock !== undefined) data.append("stock", String(values.stock))
+  if (values.dailyCapacity !== undefined) data.append("dailyCapacity", String(values.dailyCapacity))
+  if (values.outOfStock !== undefined) data.append("outOfStock", String(values.outOfStock))
+
+  // keep the current gallery; an image URL from the sheet becomes the cover
+  const current = existing ? (existing.images?.length ? existing.images : existing.image ? [existing.image] : []) : []
+  const images = values.image ? [values.image, ...current.filter((url) => url !== values.image)] : current
+  if (existing || images.length) data.append("existingImages", JSON.stringify(images))
+  return data
+}
+
+/** Columns for the downloadable error report: the original cells plus what went wrong */
+export function errorReportColumns(headers: string[]): ExportColumn<Pick<ImportRow, "line" | "cells" | "errors">>[] {
+  return [
+    { header: "Line", kind: "number", value: (row) => row.line },
+    ...headers.map((header) => ({ header, value: (row: Pick<ImportRow, "cells">) => row.cells[header] })),
+    { header: "Errors", value: (row) => row.errors.join("; ") },
+  ]
+}
+
+/** Header-only sheet with every field, for people starting from scratch */
+export const TEMPLATE_COLUMNS: ExportColumn<never>[] = IMPORT_FIELDS.map((field) => ({
+  header: field.label,
+  value: () => undefined,
+}))
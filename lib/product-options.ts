@@ -0,0 +1,88 @@
+import { z } from "zod"
+import type { Order, ProductOptionGroup, SelectedOption } from "./types"
+
+type OrderLine = Order["items"][number]
+
+const optionSchema = z.object({
+  _id: z.string().optional(),
+  name: z.string().trim().min(1, "Every option needs a name"),
+  priceDelta: z.coerce.number({ invalid_type_error: "Price changes must be numbers" }),
+})
+
+export const optionGroupSchema = z
+  .object({
+    _id: z.string().optional(),
+    name: z.string().trim().min(1, "Every option group needs a name"),
+    required: z.boolean(),
+    minSelect: z.coerce.number().int().min(0),
+    maxSelect: z.coerce.number().int().min(1, "Max selections must be at least 1"),
+    options: z.array(optionSchema).min(1, "Every option group needs at least one option"),
+  })
+  .superRefine((group, ctx) => {
+    const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${group.name}: ${message}` })
+    if (group.required && group.minSelect < 1) issue("a required group needs at least 1 selection")
+    if (group.minSelect > group.maxSelect) issue("min selections can't be more than max")
+    if (group.maxSelect > group.options.length) issue("max selections can't be more than the number of options")
+    const names = group.options.map((o) => o.name.trim().toLowerCase())
+    if (new Set(names).size !== names.length) issue("option names must be unique")
+  })
+
+export const optionGroupsSchema = z
+  .array(optionGroupSchema)
+  .refine(
+    (groups) => new Set(groups.map((g) => g.name.trim().toLowerCase())).size === groups.length,
+    "Option group names must be unique",
+  )
+
+/** Editor state: numbers stay strings while typed so "-" or "" don't snap to 0 */
+export type OptionDraft = { _id?: string; name: string; priceDelta: string }
+export type OptionGroupDraft = Omit<ProductOptionGroup, "minSelect" | "maxSelect" | "options"> & {
+  minSelect: string
+  maxSelect: string
+  options: OptionDraft[]
+}
+
+export function emptyOptionGroup(): OptionGroupDraft {
+  return { name: "", required: false, minSelect: "0", maxSelect: "1", options: [{ name: "", priceDelta: "0" }] }
+}
+
+export function toOptionGroupDrafts(groups: ProductOptionGroup[] = []): OptionGroupDraft[] {
+  return groups.map((group) => ({
+    ...group,
+    minSelect: String(group.minSelect ?? 0),
+    maxSelect: String(group.maxSelect ?? 1),
+    options: group.options.map((option) => ({ ...option, priceDelta: String(option.priceDelta ?? 0) })),
+  }))
+}
+
+/** Validated groups ready to submit, or the first problem to show the user */
+export function parseOptionGroups(drafts: OptionGroupDraft[]):
+  | { success: true; data: ProductOptionGroup[] }
+  | { success: false; error: string } {
+  const result = optionGroupsSchema.safeParse(drafts)
+  if (result.success) return { success: true, data: result.data }
+  return { success: false, error: result.error.issues[0]?.message ?? "Check the product options" }
+}
+
+/** Price per unit including chosen options; prefers the price recorded at checkout */
+export function lineUnitPrice(line: OrderLine) {
+  if (typeof line.unitPrice === "number") return line.unitPrice
+  const deltas = (line.selectedOptions ?? []).reduce((sum, o) => sum + Number(o.priceDelta ?? 0), 0)
+  return Number(line.item?.price ?? 0) + deltas
+}
+
+/** Chosen options grouped for display: [["Size", ["8\""]], ["Extras", ["Candles", "Plaque"]]] */
+export function groupSelectedOptions(options: SelectedOption[] = []) {
+  const groups = new Map<string, SelectedOption[]>()
+  for (const option of options) {
+    groups.set(option.group, [...(groups.get(option.group) ?? []), option])
+  }
+  return [...groups.entries()]
+}
+
+/** One-line form for exports and packing slips: "Size: 8" · Extras: Candles, Plaque" */
+export function describeSelectedOptions(options: SelectedOption[] = []) {
+  return groupSelectedOptions(options)
+    .map(([group, chosen]) => `${group}: ${chosen.map((o) => o.option).join(", ")}`)
+    .join(" · ")
+}
@@ -0,0 +1,108 @@
+import { describeSelectedOptions } from "./product-options"
+import type { Category, Order, Product } from "./types"
+
+/** One combination of chosen options, e.g. "Size: 8\"" ("" for none) */
+export type ProductionVariant = {
+  options: string
+  quantity: number
+  orders: number
+}
+
+export type ProductionLine = {
+  productId: string
+  name: string
+  quantity: number
+  /** number of distinct orders containing this product */
+  orders: number
+  /** the quantity split by chosen options, largest first */
+  variants: ProductionVariant[]
+}
+
+export type ProductionGroup = {
+  categoryId: string
+  categoryName: string
+  lines: ProductionLine[]
+  quantity: number
+}
+
+const UNCATEGORIZED = "uncategorized"
+
+function categoryIdOf(product: Product) {
+  if (!product.category) return UNCATEGORIZED
+  return typeof product.category === "string" ? product.category : product.category._id
+}
+
+/**
+ * Sums line-item quantities per product and groups them by category, with
+ * each product broken down by its chosen options (an 8" and a 10" cake are
+ * baked differently). Groups follow the category `order` field; products and
+ * their variants are sorted by quantity, largest first, since that's what the
+ * bakers plan around.
+ */
+export function aggregateProduction(orders: Order[], categories: Category[]): ProductionGroup[] {
+  const categoryById = new Map(categories.map((c) => [c._id, c]))
+  const groups = new Map<string, ProductionGroup>()
+  const seen = new Map<string, Set<string>>()
+
+  for (const order of orders) {
+    for (const row of order.items ?? []) {
+      const product = row.item
+      if (!product?._id) continue
+
+      const categoryId = categoryIdOf(product)
+      let group = groups.get(categoryId)
+      if (!group) {
+        const populated = typeof product.category === "string" ? undefined : product.category
+        group = {
+          categoryId,
+          categoryName: categoryById.get(categoryId)?.name ?? populated?.name ?? "Uncategorized",
+          lines: [],
+          quantity: 0,
+        }
+        groups.set(categoryId, group)
+      }
+
+      let line = group.lines.find((l) => l.productId === product._id)
+      if (!line) {
+        line = { productId: product._id, name: product.name, quantity: 0, orders: 0, variants: [] }
+        group.lines.push(line)
+      }
+
+      const options = describeSelectedOptions(row.selectedOptions)
+      let variant = line.variants.find((v) => v.options === options)
+      if (!variant) {
+        variant = { options, quantity: 0, orders: 0 }
+        line.variants.push(variant)
+      }
+
+      const qty = Number(row.quantity ?? 0)
+      line.quantity += qty
+      variant.quantity += qty
+      group.quantity += qty
+
+      // the same product can appear on several lines of one order with different options
+      for (const [key, counted] of [
+        [product._id, line],
+        [`${product._id}|${options}`, variant],
+      ] as const) {
+        let orderIds = seen.get(key)
+        if (!orderIds) seen.set(key, (orderIds = new Set()))
+        if (!orderIds.has(order._id)) {
+          orderIds.add(order._id)
+          counted.orders++
+        }
+      }
+    }
+  }
+
+  const rank = (id: string) => categoryById.get(id)?.order ?? Number.MAX_SAFE_INTEGER
+
+  return [...groups.values()]
+    .map((g) => ({
+      ...g,
+      lines: g.lines
+        .map((line) => ({ ...line, variants: [...line.variants].sort((a, b) => b.quantity - a.quantity) }))
+        .sort((a, b) => b.quantity - a.quantity),
+    }))
+    .sort((a, b) => rank(a.categoryId) - rank(b.categoryId) || a.categoryName.localeCompare(b.categoryName))
+}
@@ -1,5 +1,5 @@
-import apiClient from "./api"
-import type { PaginatedResponse, Product } from "./types"
+import apiClient, { fetchAllPages } from "./api"
+import type { ApiResponse, PaginatedResponse, Product } from "./types"
 
 export type ProductQueryParams = {
   page?: number
@@ -10,6 +10,8 @@ export type ProductQueryParams = {
   minPrice?: number
   maxPrice?: number
   day?: string
+  /** "low" also matches products that are out of stock; untracked products match neither */
+  stock?: "low" | "out"
 }
 
 export const productsAPI = {
@@ -18,6 +20,18 @@ export const productsAPI = {
     return response.data
   },
 
+  /** Walks every page of `getProducts` for the given filters (page/limit are ignored) */
+  getAllProducts: (params: ProductQueryParams = {}, pageSize = 100): Promise<Product[]> =>
+    fetchAllPages(async (page) => {
+      const res = await productsAPI.getProducts({ ...params, page, limit: pageSize })
+      return { items: res.data?.items ?? [], pages: res.data?.pages ?? 1 }
+    }),
+
+  getProductById: async (id: string): Promise<Product> => {
+    const response = await apiClient.get<ApiResponse<Product>>(`/items/${id}`)
+    return response.data.data
+  },
+
   createProduct: async (data: FormData) => {
     const response = await apiClient.post("/items", data, {
       headers: { "Content-Type": "multipart/form-data" },
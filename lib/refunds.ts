@@ -0,0 +1,54 @@
+import type { Order } from "./types"
+import { lineUnitPrice } from "./product-options"
+
+type OrderLine = Order["items"][number]
+
+export const REFUND_REASONS = [
+  "Customer request",
+  "Damaged or poor quality",
+  "Wrong item",
+  "Late or missed delivery",
+  "Order cancelled",
+  "Other",
+] as const
+
+export type RefundRequest = {
+  amount: number
+  reason: string
+  note?: string
+  /** Line items being refunded; omitted for a full refund of what's left */
+  items?: Array<{ lineId: string; quantity: number }>
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export function refundedAmount(order: Order) {
+  if (typeof order.refundedAmount === "number") return order.refundedAmount
+  return round2((order.refunds ?? []).reduce((sum, r) => sum + Number(r.amount ?? 0), 0))
+}
+
+/** What can still be refunded; delivery fees etc. are only covered by a full refund */
+export function refundableAmount(order: Order) {
+  return Math.max(0, round2(Number(order.totalAmount ?? 0) - refundedAmount(order)))
+}
+
+export function refundedQuantity(order: Order, lineId: string) {
+  return (order.refunds ?? [])
+    .flatMap((r) => r.items ?? [])
+    .filter((i) => i.lineId === lineId)
+    .reduce((sum, i) => sum + Number(i.quantity ?? 0), 0)
+}
+
+export function refundableQuantity(order: Order, line: OrderLine) {
+  return Math.max(0, Number(line.quantity ?? 0) - refundedQuantity(order, line._id))
+}
+
+export function isRefundable(order: Order) {
+  return order.paymentStatus === "Paid" && refundableAmount(order) > 0
+}
+
+/** Amount for a partial refund, capped at what's left on the order */
+export function partialRefundAmount(order: Order, quantities: Record<string, number>) {
+  const sum = (order.items ?? []).reduce((total, line) => total + lineUnitPrice(line) * (quantities[line._id] ?? 0), 0)
+  return Math.min(round2(sum), refundableAmount(order))
+}
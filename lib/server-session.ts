@@ -0,0 +1,14 @@
+import "server-only"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "./auth-options"
+import { setServerTokenSource } from "./auth-token"
+
+/** Session for server components; importing this also lets the API layer authenticate on the server */
+export function getServerAuthSession() {
+  return getServerSession(authOptions)
+}
+
+setServerTokenSource(async () => {
+  const session = await getServerAuthSession()
+  return session?.user?.accessToken
+})
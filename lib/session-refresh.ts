@@ -0,0 +1,52 @@
+import type { Session } from "next-auth"
+import { setAccessToken } from "./auth-token"
+
+type SessionUpdate = (data: { refresh: true }) => Promise<Session | null | undefined>
+
+let pending: Promise<string | null> | null = null
+let updateSession: SessionUpdate | null = null
+
+/**
+ * Registered by `AuthTokenSync` with `useSession().update`, so a refresh goes
+ * through SessionProvider and every `useSession` consumer sees the new token.
+ */
+export function setSessionUpdater(update: SessionUpdate | null) {
+  updateSession = update
+}
+
+// Before SessionProvider has mounted there is no updater; ask the endpoint directly
+async function postSessionRefresh(): Promise<Session | null> {
+  const { getCsrfToken } = await import("next-auth/react")
+  const csrfToken = await getCsrfToken()
+  const res = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ csrfToken, data: { refresh: true } }),
+  })
+  return res.ok ? res.json() : null
+}
+
+/**
+ * Asks NextAuth to rotate the backend tokens (see the `jwt` callback) and
+ * resolves with the new access token, or null when the refresh token has
+ * expired too. Concurrent callers share one request, so a burst of 401s
+ * only spends the refresh token once.
+ */
+export function refreshSession(): Promise<string | null> {
+  pending ??= (async () => {
+    try {
+      const session = updateSession ? await updateSession({ refresh: true }) : await postSessionRefresh()
+      if (!session || session.error) return null
+
+      const token = session.user?.accessToken ?? null
+      setAccessToken(token)
+      return token
+    } catch {
+      return null
+    }
+  })().finally(() => {
+    pending = null
+  })
+
+  return pending
+}
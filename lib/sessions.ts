@@ -0,0 +1,58 @@
+/** A signed-in device, i.e. one refresh-token family on the backend */
+export interface AuthSession {
+  _id: string
+  userAgent?: string
+  ip?: string
+  location?: string
+  createdAt: string
+  lastSeenAt: string
+  /** The session making the request */
+  current?: boolean
+}
+
+export const IDLE_TIMEOUT_KEY = "dashboard.idleTimeout"
+/** Shared across tabs so activity in one keeps the others signed in */
+export const LAST_ACTIVITY_KEY = "dashboard.lastActivity"
+
+/** Minutes; 0 turns the idle sign-out off */
+export const IDLE_TIMEOUT_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 15, label: "After 15 minutes" },
+  { value: 30, label: "After 30 minutes" },
+  { value: 60, label: "After 1 hour" },
+  { value: 240, label: "After 4 hours" },
+] as const
+
+export function loadIdleTimeout() {
+  const stored = Number(localStorage.getItem(IDLE_TIMEOUT_KEY))
+  return IDLE_TIMEOUT_OPTIONS.some((o) => o.value === stored) ? stored : 0
+}
+
+export function saveIdleTimeout(minutes: number) {
+  localStorage.setItem(IDLE_TIMEOUT_KEY, String(minutes))
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+]
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+]
+
+/** "Chrome on macOS" from a user-agent string */
+export function describeDevice(userAgent?: string) {
+  if (!userAgent) return "Unknown device"
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1]
+  const system = SYSTEMS.find(([re]) => re.test(userAgent))?.[1]
+  if (browser && system) return `${browser} on ${system}`
+  return browser ?? system ?? "Unknown device"
+}
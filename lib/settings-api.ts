@@ -0,0 +1,26 @@
+import apiClient from "./api"
+import type { ApiResponse } from "./types"
+import { withDefaults, type SettingsSection, type StoreSettings } from "./settings"
+
+export const settingsAPI = {
+  getSettings: async (): Promise<StoreSettings> => {
+    const response = await apiClient.get<ApiResponse<Partial<StoreSettings>>>("/settings")
+    return withDefaults(response.data.data)
+  },
+
+  /** Saves one tab at a time so two people editing different tabs don't overwrite each other */
+  updateSettings: async <S extends SettingsSection>(section: S, values: StoreSettings[S]): Promise<StoreSettings> => {
+    const response = await apiClient.patch<ApiResponse<Partial<StoreSettings>>>("/settings", { [section]: values })
+    return withDefaults(response.data.data)
+  },
+
+  /** Returns the hosted URL to store as `profile.logo` */
+  uploadLogo: async (file: File): Promise<string> => {
+    const data = new FormData()
+    data.append("logo", file)
+    const response = await apiClient.post<ApiResponse<{ url: string }>>("/settings/logo", data, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+    return response.data.data.url
+  },
+}
@@ -0,0 +1,177 @@
+import { z } from "zod"
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE } from "./format"
+
+export const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export const CURRENCIES = [
+  { code: "USD", label: "US Dollar" },
+  { code: "EUR", label: "Euro" },
+  { code: "GBP", label: "British Pound" },
+  { code: "CHF", label: "Swiss Franc" },
+  { code: "CAD", label: "Canadian Dollar" },
+  { code: "AUD", label: "Australian Dollar" },
+] as const
+
+export type CurrencyCode = (typeof CURRENCIES)[number]["code"]
+
+const CURRENCY_CODES = CURRENCIES.map((c) => c.code) as [CurrencyCode, ...CurrencyCode[]]
+
+/** Decides separators and symbol placement, independently of the currency */
+export const LOCALES = [
+  { code: "en-US", label: "English (United States)" },
+  { code: "en-GB", label: "English (United Kingdom)" },
+  { code: "de-DE", label: "Deutsch (Deutschland)" },
+  { code: "de-CH", label: "Deutsch (Schweiz)" },
+  { code: "fr-FR", label: "Français (France)" },
+  { code: "fr-CH", label: "Français (Suisse)" },
+  { code: "it-IT", label: "Italiano (Italia)" },
+  { code: "es-ES", label: "Español (España)" },
+] as const
+
+export type LocaleCode = (typeof LOCALES)[number]["code"]
+
+const LOCALE_CODES = LOCALES.map((l) => l.code) as [LocaleCode, ...LocaleCode[]]
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM")
+
+// "08:00" < "17:30" compares correctly as strings
+const timeRange = <T extends { from: string; to: string }>(range: T) => range.from < range.to
+
+const money = z.coerce.number({ invalid_type_error: "Enter an amount" }).min(0, "Can't be negative")
+
+export const openingHoursSchema = z
+  .object({
+    day: z.enum(WEEKDAYS),
+    closed: z.boolean(),
+    from: time,
+    to: time,
+  })
+  .refine((day) => day.closed || timeRange(day), { message: "Closing time must be after opening", path: ["to"] })
+
+export const storeProfileSchema = z.object({
+  name: z.string().trim().min(1, "Store name is required").max(80),
+  logo: z.string().optional(),
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email")]),
+  phone: z.string().trim().max(30),
+  address: z.object({
+    line1: z.string().trim().min(1, "Street address is required"),
+    line2: z.string().trim(),
+    city: z.string().trim().min(1, "City is required"),
+    postalCode: z.string().trim().min(1, "Postal code is required"),
+    country: z.string().trim().min(1, "Country is required"),
+  }),
+  openingHours: z.array(openingHoursSchema).length(WEEKDAYS.length),
+})
+
+export const pricingSchema = z.object({
+  currency: z.enum(CURRENCY_CODES),
+  locale: z.enum(LOCALE_CODES),
+  /** Percent, e.g. 7.7 */
+  taxRate: z.coerce.number({ invalid_type_error: "Enter a rate" }).min(0, "Can't be negative").max(100, "At most 100%"),
+  pricesIncludeTax: z.boolean(),
+})
+
+export const deliveryFeeRuleSchema = z.object({
+  label: z.string().trim().min(1, "Name the zone"),
+  /** Orders up to this distance use the rule; the first matching rule wins */
+  maxDistanceKm: z.coerce.number({ invalid_type_error: "Enter a distance" }).positive("Must be above 0"),
+  fee: money,
+})
+
+export const pickupSlotSchema = z
+  .object({
+    day: z.enum(WEEKDAYS),
+    from: time,
+    to: time,
+    /** Orders the bakery can hand over in this slot */
+    capacity: z.coerce.number({ invalid_type_error: "Enter a number" }).int("Whole orders only").min(1, "At least 1"),
+  })
+  .refine(timeRange, { message: "End must be after start", path: ["to"] })
+
+export const fulfilmentSchema = z.object({
+  deliveryEnabled: z.boolean(),
+  /** Order subtotal from which delivery is free; 0 turns it off */
+  freeDeliveryOver: money,
+  deliveryRules: z
+    .array(deliveryFeeRuleSchema)
+    .refine(
+      (rules) => new Set(rules.map((r) => r.maxDistanceKm)).size === rules.length,
+      "Two zones can't share the same distance",
+    ),
+  pickupEnabled: z.boolean(),
+  pickupSlots: z.array(pickupSlotSchema),
+})
+
+export const notificationPreferencesSchema = z.object({
+  newOrders: z.boolean(),
+  failedPayments: z.boolean(),
+  messages: z.boolean(),
+  lowStock: z.boolean(),
+  dailySummary: z.boolean(),
+  /** Where the daily summary is sent */
+  summaryEmail: z.union([z.literal(""), z.string().trim().email("Enter a valid email")]),
+})
+
+// a summary needs somewhere to go
+export const notificationsSchema = notificationPreferencesSchema.refine(
+  (prefs) => !prefs.dailySummary || prefs.summaryEmail !== "",
+  { message: "Add an email for the daily summary", path: ["summaryEmail"] },
+)
+
+export type StoreProfile = z.infer<typeof storeProfileSchema>
+export type PricingSettings = z.infer<typeof pricingSchema>
+export type DeliveryFeeRule = z.infer<typeof deliveryFeeRuleSchema>
+export type PickupSlot = z.infer<typeof pickupSlotSchema>
+export type FulfilmentSettings = z.infer<typeof fulfilmentSchema>
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>
+
+export interface StoreSettings {
+  profile: StoreProfile
+  pricing: PricingSettings
+  fulfilment: FulfilmentSettings
+  notifications: NotificationPreferences
+  updatedAt?: string
+}
+
+export type SettingsSection = Exclude<keyof StoreSettings, "updatedAt">
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  profile: {
+    name: "",
+    logo: "",
+    email: "",
+    phone: "",
+    address: { line1: "", line2: "", city: "", postalCode: "", country: "" },
+    openingHours: WEEKDAYS.map((day) => ({ day, closed: day === "Sunday", from: "08:00", to: "18:00" })),
+  },
+  pricing: { currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE, taxRate: 0, pricesIncludeTax: true },
+  fulfilment: {
+    deliveryEnabled: true,
+    freeDeliveryOver: 0,
+    deliveryRules: [],
+    pickupEnabled: true,
+    pickupSlots: [],
+  },
+  notifications: {
+    newOrders: true,
+    failedPayments: true,
+    messages: true,
+    lowStock: true,
+    dailySummary: false,
+    summaryEmail: "",
+  },
+}
+
+/** Sections missing from an older backend document fall back to the defaults */
+export function withDefaults(settings: Partial<StoreSettings> | null | undefined): StoreSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    profile: { ...DEFAULT_SETTINGS.profile, ...settings?.profile },
+    pricing: { ...DEFAULT_SETTINGS.pricing, ...settings?.pricing },
+    fulfilment: { ...DEFAULT_SETTINGS.fulfilment, ...settings?.fulfilment },
+    notifications: { ...DEFAULT_SETTINGS.notifications, ...settings?.notifications },
+  }
+}
@@ -0,0 +1,52 @@
+export type TwoFactorMethod = "totp" | "email"
+
+export interface TwoFactorChallenge {
+  method: TwoFactorMethod
+  /** Short-lived token from the password step; proves the password was right */
+  challengeToken: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  method?: TwoFactorMethod
+  recoveryCodesLeft?: number
+}
+
+export interface TwoFactorSetup {
+  method: TwoFactorMethod
+  /** TOTP only: base32 secret for manual entry */
+  secret?: string
+  /** TOTP only: otpauth:// URL, or a QR image data URL when the backend renders one */
+  otpauthUrl?: string
+  qrCode?: string
+}
+
+export const TRUSTED_DEVICE_COOKIE = "dashboard.trustedDevice"
+export const TRUSTED_DEVICE_DAYS = 30
+
+// NextAuth only hands the client the error message from `authorize`, so the
+// challenge travels inside it: "two-factor:<method>:<challengeToken>"
+const CHALLENGE_PREFIX = "two-factor:"
+
+export function encodeTwoFactorChallenge({ method, challengeToken }: TwoFactorChallenge) {
+  return `${CHALLENGE_PREFIX}${method}:${challengeToken}`
+}
+
+export function parseTwoFactorChallenge(error: string | null | undefined): TwoFactorChallenge | null {
+  if (!error?.startsWith(CHALLENGE_PREFIX)) return null
+  const [method, ...rest] = error.slice(CHALLENGE_PREFIX.length).split(":")
+  const challengeToken = rest.join(":")
+  if ((method !== "totp" && method !== "email") || !challengeToken) return null
+  return { method, challengeToken }
+}
+
+/** Recovery codes are shown once; this is the text users save */
+export function recoveryCodesFile(email: string, codes: string[]) {
+  return [
+    `Recovery codes for ${email}`,
+    "Each code can be used once instead of a verification code.",
+    "",
+    ...codes,
+    "",
+  ].join("\n")
+}
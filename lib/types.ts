@@ -2,9 +2,12 @@ export interface User {
   id: string
   name: string
   email: string
-  role: "admin" | "user"
+  role: UserRole
 }
 
+/** "admin" predates staff roles and is treated as owner; "user" is a customer */
+export type UserRole = "owner" | "manager" | "baker" | "support" | "admin" | "user"
+
 export interface AuthResponse {
   success: boolean
   message: string
@@ -23,6 +26,60 @@ export interface Category {
   createdAt?: string
 }
 
+export interface ProductOption {
+  _id?: string
+  name: string
+  /** Added to the product price when chosen; may be negative */
+  priceDelta: number
+}
+
+/** e.g. Size (pick exactly one) or Extras (pick up to three) */
+export interface ProductOptionGroup {
+  _id?: string
+  name: string
+  required: boolean
+  minSelect: number
+  maxSelect: number
+  options: ProductOption[]
+}
+
+/** An option as it was chosen at checkout; names and prices are copied so later edits don't change old orders */
+export interface SelectedOption {
+  group: string
+  option: string
+  priceDelta: number
+}
+
+export type Allergen = "gluten" | "nuts" | "dairy" | "egg" | "soy"
+
+export type IngredientUnit = "g" | "kg" | "ml" | "l" | "each"
+
+/** An entry in the shared ingredient library; products reference it by id */
+export interface Ingredient {
+  _id: string
+  name: string
+  image?: string
+  allergens: Allergen[]
+  /** What recipe quantities and `unitCost` are measured in */
+  unit?: IngredientUnit
+  /** Purchase cost of one `unit`; missing means the ingredient isn't costed yet */
+  unitCost?: number
+  createdAt: string
+  updatedAt?: string
+}
+
+/**
+ * Populated library ingredient, or a bare id if the backend didn't populate.
+ * Products saved before the library existed carry inline `{ name, image }` copies.
+ */
+export type ProductIngredient = string | Ingredient | { _id?: undefined; name: string; image?: string }
+
+/** How much of an ingredient goes into one unit of a product, in the ingredient's unit */
+export interface RecipeLine {
+  ingredient: string | Ingredient
+  quantity: number
+}
+
 /** ✅ Backend returns category as object (populate) OR string id */
 export type ProductCategory = string | Pick<Category, "_id" | "name" | "image">
 
@@ -35,12 +92,17 @@ export interface Product {
   image?: string
   images?: string[]
   specialDays?: string[]
-  ingredients?: Array<{
-    name: string
-    image?: string
-  }>
+  ingredients?: ProductIngredient[]
+  recipe?: RecipeLine[]
   rating?: number
   reviewsCount?: number
+  /** Units on hand; missing means stock isn't tracked for this product */
+  stock?: number
+  /** Most units the bakery can make in a day */
+  dailyCapacity?: number
+  /** Set by staff to stop sales regardless of `stock` */
+  outOfStock?: boolean
+  optionGroups?: ProductOptionGroup[]
   createdAt: string
   updatedAt?: string
 }
@@ -65,6 +127,9 @@ export interface Order {
     item: Product
     quantity: number
     _id: string
+    selectedOptions?: SelectedOption[]
+    /** Price per unit including options, fixed at checkout (missing on older orders) */
+    unitPrice?: number
   }>
   totalAmount: number
   address: string
@@ -73,10 +138,49 @@ export interface Order {
   status: "Pending" | "Processing" | "Delivered" | "Cancelled"
   paymentStatus: "Paid" | "Pending" | "Failed" | "Refunded"
   estimatedDelivery: string
+  /** Every status / paymentStatus change, oldest first (missing on older orders) */
+  statusHistory?: OrderStatusEvent[]
+  /** Refunds issued against this order, oldest first */
+  refunds?: OrderRefund[]
+  /** Sum of `refunds[].amount`, as tracked by the backend */
+  refundedAmount?: number
   createdAt: string
   updatedAt: string
 }
 
+export interface OrderStatusEvent {
+  _id?: string
+  status?: Order["status"]
+  paymentStatus?: Order["paymentStatus"]
+  note?: string
+  changedBy?: {
+    _id: string
+    name: string
+    email?: string
+  }
+  changedAt: string
+}
+
+export interface OrderRefund {
+  _id: string
+  amount: number
+  reason: string
+  /** Internal only; never shown to the customer */
+  note?: string
+  /** Empty for a full refund */
+  items: Array<{
+    /** `Order.items[]._id` */
+    lineId: string
+    quantity: number
+    amount: number
+  }>
+  refundedBy?: {
+    _id: string
+    name: string
+  }
+  createdAt: string
+}
+
 export interface Customer {
   _id: string
   name: string
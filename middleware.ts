@@ -1,14 +1,18 @@
 import { getToken } from "next-auth/jwt"
 import { type NextRequest, NextResponse } from "next/server"
+import { canAccessRoute, homeRoute } from "@/lib/permissions"
 
 export async function middleware(request: NextRequest) {
-  const token = await getToken({
+  const jwt = await getToken({
     req: request,
     secret: process.env.NEXTAUTH_SECRET,
   })
+  // A session whose refresh token has been spent is as good as signed out
+  const token = jwt && !jwt.error ? jwt : null
 
-  const isAuthPage = request.nextUrl.pathname.startsWith("/auth")
-  const isProtectedPage = request.nextUrl.pathname.startsWith("/dashboard")
+  const { pathname } = request.nextUrl
+  const isAuthPage = pathname.startsWith("/auth")
+  const isProtectedPage = pathname.startsWith("/dashboard")
 
   // Redirect to login if accessing protected page without token
   if (isProtectedPage && !token) {
@@ -17,7 +21,16 @@ export async function middleware(request: NextRequest) {
 
   // Redirect to dashboard if already logged in and accessing auth pages
   if (isAuthPage && token) {
-    return NextResponse.redirect(new URL("/dashboard", request.url))
+    return NextResponse.redirect(new URL(homeRoute(token.role), request.url))
+  }
+
+  if (isProtectedPage && token && !canAccessRoute(token.role, pathname)) {
+    // The overview is everyone's landing page; send roles without it to one they can open
+    const home = homeRoute(token.role)
+    if (pathname === "/dashboard" && home !== "/403") {
+      return NextResponse.redirect(new URL(home, request.url))
+    }
+    return NextResponse.rewrite(new URL("/403", request.url), { status: 403 })
   }
 
   return NextResponse.next()
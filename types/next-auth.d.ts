@@ -0,0 +1,34 @@
+import type { DefaultSession } from "next-auth"
+import type { UserRole } from "@/lib/types"
+
+// What the `jwt` and `session` callbacks in lib/auth-options.ts add to NextAuth's shapes
+declare module "next-auth" {
+  interface Session {
+    user?: DefaultSession["user"] & {
+      id?: string
+      role?: UserRole
+      /** Backend bearer token; read it through lib/auth-token rather than from here */
+      accessToken?: string
+    }
+    /** Set once the refresh token has been spent too */
+    error?: "RefreshAccessTokenError"
+  }
+
+  interface User {
+    role?: UserRole
+    accessToken?: string
+    refreshToken?: string
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    id?: string
+    role?: UserRole
+    accessToken?: string
+    refreshToken?: string
+    /** Epoch milliseconds */
+    accessTokenExpires?: number
+    error?: "RefreshAccessTokenError"
+  }
+}